@@ -1,95 +1,450 @@
-import React, { useState, useEffect } from 'react';
-import { generateStructuredFeedback, EvaluationMode } from './services/geminiService.ts';
-import { EvaluationReport, FileData } from './types.ts';
+import React, { useState, useEffect, useRef } from 'react';
+import { comparePromptVersions, generateStructuredFeedback } from './services/geminiService.ts';
+import { processFile } from './services/fileProcessing.ts';
+import { createBatchItems, runBatchQueue } from './services/batchService.ts';
+import { deleteTemplate, loadTemplates, saveTemplate, templateMaxScore } from './services/templateService.ts';
+import { unresolvedIssues } from './services/scoringIntegrity.ts';
+import { exportReportToWord } from './services/wordExport.ts';
+import { exportReportToPdf } from './services/pdfExport.ts';
+import { exportReportToJson, parseReportExport } from './services/reportInterchange.ts';
+import { applyFacultyMarks, exportMarksCsv, exportMarksXlsx, FacultyMarksSheet, findMarksForFile, marksToFacultyNotes } from './services/marksSheet.ts';
+import { createAudit, deleteAudit, duplicateAudit, listAudits, updateAuditReport } from './services/historyStore.ts';
+import { canApprove, canEvaluate, clearSession, loadSession, ROLE_LABELS, stampApproved, stampGenerated } from './services/authService.ts';
+import { EvaluationError, isAbortError } from './services/evaluationErrors.ts';
+import { progressPreviewReport } from './services/partialReport.ts';
+import { addStudent, autoLinkStudent, deleteStudent, linkStudent, loadStudents } from './services/studentRegistry.ts';
+import { useUndoableState } from './hooks/useUndoableState.ts';
+import { DocumentSlot, usePreparedDocuments } from './hooks/usePreparedDocuments.ts';
+import { AuditProgress, AuditRecord, AuditSourceFiles, AuthSession, BatchItem, EvaluationMode, EvaluationReport, PromptComparisonResult, Student, TestTemplate } from './types.ts';
 import FileUploader from './components/FileUploader.tsx';
 import FeedbackReport from './components/FeedbackReport.tsx';
-// @ts-ignore
-import mammoth from 'mammoth';
+import BatchPanel from './components/BatchPanel.tsx';
+import TemplateManager from './components/TemplateManager.tsx';
+import IntegrityPanel from './components/IntegrityPanel.tsx';
+import HistoryView from './components/HistoryView.tsx';
+import AnalyticsView from './components/AnalyticsView.tsx';
+import StudentsView from './components/StudentsView.tsx';
+import StudentLink from './components/StudentLink.tsx';
+import LoginScreen from './components/LoginScreen.tsx';
+import PageStrip from './components/PageStrip.tsx';
+import PromptComparison from './components/PromptComparison.tsx';
+import MarksSheetImport from './components/MarksSheetImport.tsx';
+
+const isSessionExpired = (err: unknown): err is EvaluationError =>
+  err instanceof EvaluationError && err.code === 'UNAUTHENTICATED';
+
+// History records list every file that made up a document slot.
+const fileNames = (files: File[]) => (files.length > 0 ? files.map(f => f.name).join(', ') : undefined);
 
 const App: React.FC = () => {
-  const [sourceDoc, setSourceDoc] = useState<File | null>(null);
-  const [dirtyFeedbackDoc, setDirtyFeedbackDoc] = useState<File | null>(null);
-  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(() => loadSession());
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null);
+  const [sourceDoc, setSourceDoc] = useState<File[]>([]);
+  const [dirtyFeedbackDoc, setDirtyFeedbackDoc] = useState<File[]>([]);
+  const {
+    value: report,
+    set: editReport,
+    reset: setReport,
+    undo: undoEdit,
+    redo: redoEdit,
+    canUndo,
+    canRedo,
+  } = useUndoableState<EvaluationReport | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingStep, setLoadingStep] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
-  const [view, setView] = useState<'dashboard' | 'report'>('dashboard');
+  const [progress, setProgress] = useState<AuditProgress | null>(null);
+  const { docs: preparedDocs, prepare: prepareDocument, updatePages, resolve: resolveDocument } = usePreparedDocuments();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [view, setView] = useState<'dashboard' | 'report' | 'templates' | 'history' | 'analytics' | 'students'>('dashboard');
   const [evalMode, setEvalMode] = useState<EvaluationMode>('with-manual');
+  const [inputMode, setInputMode] = useState<'single' | 'batch'>('single');
+  const [questionPaperDoc, setQuestionPaperDoc] = useState<File[]>([]);
+  const [answerKeyDoc, setAnswerKeyDoc] = useState<File[]>([]);
+  // Faculty marks can come from a spreadsheet instead of the handwritten notes.
+  const [notesSource, setNotesSource] = useState<'upload' | 'sheet'>('upload');
+  const [marksSheet, setMarksSheet] = useState<FacultyMarksSheet | null>(null);
+  const [marksStudentIndex, setMarksStudentIndex] = useState(0);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [openedBatchItemId, setOpenedBatchItemId] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<TestTemplate[]>(() => loadTemplates());
+  const [students, setStudents] = useState<Student[]>(() => loadStudents());
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
+  const [auditHistory, setAuditHistory] = useState<AuditRecord[]>([]);
+  const [currentAuditId, setCurrentAuditId] = useState<string | null>(null);
+  // The report as last written to history, so opening a record doesn't count as an edit.
+  const persistedReportRef = useRef<EvaluationReport | null>(null);
+
+  const currentUser = session?.user || null;
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) || null;
+  // Export stays blocked until every scoring discrepancy is fixed or acknowledged.
+  const exportBlocked = !!report && unresolvedIssues(report).length > 0;
+  const sheetMarks = notesSource === 'sheet' ? marksSheet?.students[marksStudentIndex] ?? null : null;
+  const notesMissing = evalMode === 'with-manual' && (notesSource === 'sheet' ? !sheetMarks : dirtyFeedbackDoc.length === 0);
 
   useEffect(() => {
     if (report) {
       setView('report');
-      window.scrollTo(0, 0);
     }
   }, [report]);
 
-  const processFile = async (file: File): Promise<FileData> => {
-    const isDocx = file.name.toLowerCase().endsWith('.docx');
-    if (isDocx) {
-      setLoadingStep(`Parsing ${file.name}...`);
-      try {
-        const arrayBuffer = await file.arrayBuffer();
-        if (arrayBuffer.byteLength === 0) throw new Error("File is empty.");
-        const result = await mammoth.extractRawText({ arrayBuffer });
-        return { text: result.value, name: file.name, isDocx: true };
-      } catch (e: any) {
-        console.error("Mammoth error:", e);
-        throw new Error(`Failed to parse DOCX: ${e.message || 'Unknown error'}`);
-      }
+  useEffect(() => {
+    if (view === 'report') window.scrollTo(0, 0);
+    else setIsEditing(false);
+  }, [view]);
+
+  useEffect(() => {
+    refreshHistory();
+  }, []);
+
+  useEffect(() => {
+    if (!currentAuditId || !report || report === persistedReportRef.current) return;
+    persistedReportRef.current = report;
+    updateAuditReport(currentAuditId, report)
+      .then(refreshHistory)
+      .catch(err => console.error("Failed to save audit edits:", err));
+  }, [report, currentAuditId]);
+
+  // Faculty corrections to a report opened from the class list flow back into the list.
+  useEffect(() => {
+    if (openedBatchItemId && report) {
+      setBatchItems(prev => prev.map(item => (item.id === openedBatchItemId ? { ...item, report } : item)));
     }
-    
-    setLoadingStep(`Processing ${file.name}...`);
+  }, [report, openedBatchItemId]);
+
+  const signOut = (notice: string | null = null) => {
+    clearSession();
+    setSession(null);
+    setSessionNotice(notice);
+    setView('dashboard');
+    setReport(null);
+  };
+
+  // An expired or revoked token sends the user back to the sign-in screen.
+  const handleAuthFailure = (err: unknown): boolean => {
+    if (isSessionExpired(err)) {
+      signOut(err.message);
+      return true;
+    }
+    return false;
+  };
+
+  // Approval certifies specific content, so any later edit withdraws it.
+  const editReportContent = (next: EvaluationReport, coalesceKey?: string) => {
+    editReport(next.approvedBy ? { ...next, approvedBy: undefined } : next, coalesceKey);
+  };
+
+  const handleApprove = () => {
+    if (!report || !currentUser || !canApprove(currentUser)) return;
+    editReport(stampApproved(report, currentUser));
+  };
+
+  const refreshHistory = () => {
+    listAudits()
+      .then(setAuditHistory)
+      .catch(err => console.error("Failed to load audit history:", err));
+  };
+
+  const openReport = (next: EvaluationReport, auditId: string | null, batchItemId: string | null = null) => {
+    persistedReportRef.current = next;
+    setError(null);
+    setCurrentAuditId(auditId);
+    setOpenedBatchItemId(batchItemId);
+    setReport(next);
+  };
+
+  // History is a convenience: a storage failure must never lose the generated report.
+  const saveToHistory = async (res: EvaluationReport, mode: EvaluationMode, sourceFiles: AuditSourceFiles): Promise<string | null> => {
     try {
-      const base64 = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          if (typeof reader.result === 'string') {
-            resolve(reader.result.split(',')[1]);
-          } else {
-            reject(new Error("File conversion failed."));
-          }
-        };
-        reader.onerror = () => reject(new Error("Failed to read file."));
-        reader.readAsDataURL(file);
-      });
-      return { base64, mimeType: file.type, name: file.name, isDocx: false };
-    } catch (e: any) {
-      throw new Error(`File Error: ${e.message}`);
+      const record = await createAudit(res, mode, sourceFiles);
+      refreshHistory();
+      return record.id;
+    } catch (err) {
+      console.error("Failed to save audit to history:", err);
+      return null;
     }
   };
 
   const handleAnalyze = async () => {
-    if (!sourceDoc) {
+    if (!currentUser || !canEvaluate(currentUser)) {
+      setError("Your role can review and approve reports but cannot run audits.");
+      return;
+    }
+    if (sourceDoc.length === 0) {
       setError("Please upload the Student Answer Sheet.");
       return;
     }
-    if (evalMode === 'with-manual' && !dirtyFeedbackDoc) {
-      setError("Please upload the Faculty Notes.");
+    if (notesMissing) {
+      setError(notesSource === 'sheet' ? "Please import the faculty marks sheet and select the student." : "Please upload the Faculty Notes.");
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
     setError(null);
+    setProgress(null);
     setLoadingStep("Reading files...");
     
     try {
-      const sData = await processFile(sourceDoc);
-      const fData = dirtyFeedbackDoc ? await processFile(dirtyFeedbackDoc) : null;
+      const qpData = await resolveDocument('questionPaper', questionPaperDoc, setLoadingStep);
+      const keyData = await resolveDocument('answerKey', answerKeyDoc, setLoadingStep);
+      const sData = (await resolveDocument('studentScript', sourceDoc, setLoadingStep))!;
+      const fData = evalMode === 'with-manual' && sheetMarks
+        ? marksToFacultyNotes(marksSheet!, sheetMarks)
+        : await resolveDocument('facultyNotes', dirtyFeedbackDoc, setLoadingStep);
       
       setLoadingStep("AI performing medical audit...");
-      const res = await generateStructuredFeedback(sData, fData, evalMode);
-      
-      if (!res || !res.questions) {
-        throw new Error("Received invalid response format from AI.");
-      }
+      const res = await generateStructuredFeedback({
+        questionPaper: qpData,
+        answerKey: keyData,
+        studentScript: sData,
+        facultyNotes: fData,
+      }, evalMode, selectedTemplate, {
+        signal: controller.signal,
+        onProgress: (next) => {
+          setProgress(next);
+          if (next.questions.length > 0) {
+            setLoadingStep(`Q${next.questions.length} of ${next.expectedCount ?? '?'} evaluated`);
+          }
+        },
+      })
+        .then(r => (evalMode === 'with-manual' && sheetMarks ? applyFacultyMarks(r, sheetMarks) : r))
+        .then(r => autoLinkStudent(stampGenerated(r, currentUser)));
       
-      setReport(res);
+      const auditId = await saveToHistory(res, evalMode, {
+        questionPaper: fileNames(questionPaperDoc),
+        answerKey: fileNames(answerKeyDoc),
+        studentScript: fileNames(sourceDoc)!,
+        facultyNotes: fData?.name,
+      });
+      openReport(res, auditId);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error("Analysis sequence failure:", err);
+      if (handleAuthFailure(err)) return;
       setError(err.message || "An unexpected error occurred. Please try again.");
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
       setLoadingStep("");
+      setProgress(null);
+    }
+  };
+
+  // Comparison runs are experiments: they are not saved to history.
+  const handleComparePrompts = async (versions: string[]): Promise<PromptComparisonResult[]> => {
+    if (!currentUser) return [];
+    const documents = {
+      questionPaper: await resolveDocument('questionPaper', questionPaperDoc),
+      answerKey: await resolveDocument('answerKey', answerKeyDoc),
+      studentScript: (await resolveDocument('studentScript', sourceDoc))!,
+      facultyNotes: evalMode === 'with-manual' && sheetMarks
+        ? marksToFacultyNotes(marksSheet!, sheetMarks)
+        : await resolveDocument('facultyNotes', dirtyFeedbackDoc),
+    };
+    try {
+      const results = await comparePromptVersions(documents, evalMode, selectedTemplate, versions);
+      // Finished the same way as handleAnalyze, so A/B reports match a normal run.
+      return results.map(result => (result.report
+        ? { ...result, report: stampGenerated(evalMode === 'with-manual' && sheetMarks ? applyFacultyMarks(result.report, sheetMarks) : result.report, currentUser) }
+        : result));
+    } catch (err) {
+      handleAuthFailure(err);
+      throw err;
+    }
+  };
+
+  const selectDocument = (slot: DocumentSlot, setFiles: (files: File[]) => void) => (files: File[]) => {
+    setFiles(files);
+    prepareDocument(slot, files);
+  };
+
+  const renderPreparedPages = (slot: DocumentSlot) => {
+    const doc = preparedDocs[slot];
+    if (!doc) return null;
+    if (doc.isPreparing) {
+      return <p className="mt-3 text-center text-[10px] font-black uppercase tracking-widest text-slate-400 animate-pulse">Preparing pages...</p>;
+    }
+    if (doc.error) {
+      return <p className="mt-3 text-center text-xs font-bold text-rose-600">{doc.error}</p>;
+    }
+    if (!doc.data?.pages) return null;
+    return <PageStrip pages={doc.data.pages} droppedBlankPages={doc.data.droppedBlankPages} onChange={(pages) => updatePages(slot, pages)} />;
+  };
+
+  const renderNotesSourceToggle = () => (
+    <div className="flex justify-end gap-1 mb-2">
+      {(['upload', 'sheet'] as const).map(source => (
+        <button
+          key={source}
+          onClick={() => setNotesSource(source)}
+          className={`text-[10px] font-black uppercase tracking-wider px-3 py-1.5 rounded-lg border transition-all ${notesSource === source ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+        >
+          {source === 'upload' ? 'Handwritten Notes' : 'Marks Sheet'}
+        </button>
+      ))}
+    </div>
+  );
+
+  const handleCancelAnalyze = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const updateBatchItem = (id: string, patch: Partial<BatchItem>) => {
+    setBatchItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const runBatch = async (targets: BatchItem[]) => {
+    if (!currentUser || !canEvaluate(currentUser)) {
+      setError("Your role can review and approve reports but cannot run audits.");
+      return;
+    }
+    if (answerKeyDoc.length === 0) {
+      setError("Please upload the Answer Key shared by the class.");
+      return;
+    }
+
+    setIsBatchRunning(true);
+    setError(null);
+
+    try {
+      // The shared paper and key are parsed once and reused for every student in the queue.
+      const qpData = await resolveDocument('questionPaper', questionPaperDoc);
+      const keyData = await resolveDocument('answerKey', answerKeyDoc);
+      await runBatchQueue(targets, async (item) => {
+        const sData = await processFile(item.studentFile);
+        // Uploaded notes win over the marks sheet when a script has both.
+        const itemMarks = !item.notesFile && evalMode === 'with-manual' && marksSheet
+          ? findMarksForFile(marksSheet, item.studentFile.name)
+          : null;
+        const fData = item.notesFile
+          ? await processFile(item.notesFile)
+          : itemMarks ? marksToFacultyNotes(marksSheet!, itemMarks) : null;
+        // Scripts without matching notes fall back to key-only evaluation.
+        const itemMode: EvaluationMode = fData ? evalMode : 'without-manual';
+        const res = await generateStructuredFeedback({
+          questionPaper: qpData,
+          answerKey: keyData,
+          studentScript: sData,
+          facultyNotes: fData,
+        }, itemMode, selectedTemplate)
+          .then(r => (itemMarks ? applyFacultyMarks(r, itemMarks) : r))
+          .then(r => autoLinkStudent(stampGenerated(r, currentUser)));
+        const auditId = await saveToHistory(res, itemMode, {
+          questionPaper: fileNames(questionPaperDoc),
+          answerKey: fileNames(answerKeyDoc),
+          studentScript: item.studentFile.name,
+          facultyNotes: fData?.name,
+        });
+        if (auditId) updateBatchItem(item.id, { auditId });
+        return res;
+      }, updateBatchItem, isSessionExpired);
+    } catch (err: any) {
+      console.error("Batch sequence failure:", err);
+      if (handleAuthFailure(err)) return;
+      setError(err.message || "An unexpected error occurred. Please try again.");
+    } finally {
+      setIsBatchRunning(false);
+    }
+  };
+
+  const handleRetryBatchItem = (id: string) => {
+    const item = batchItems.find(i => i.id === id);
+    if (item) runBatch([item]);
+  };
+
+  const handleSaveTemplate = (template: TestTemplate) => {
+    setTemplates(saveTemplate(template));
+    setSelectedTemplateId(template.id);
+    setView('dashboard');
+  };
+
+  // Linking is bookkeeping, not a content edit, so it does not withdraw approval.
+  const handleLinkStudent = (studentId: string | null) => {
+    if (!report) return;
+    editReport(linkStudent(report, studentId));
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    setTemplates(deleteTemplate(id));
+    if (selectedTemplateId === id) setSelectedTemplateId('');
+  };
+
+  const handleOpenBatchItem = (item: BatchItem) => {
+    if (!item.report) return;
+    openReport(item.report, item.auditId || null, item.id);
+  };
+
+  const handleExportWord = async () => {
+    if (!report) return;
+    try {
+      await exportReportToWord(report);
+    } catch (err: any) {
+      console.error("Word export failure:", err);
+      setError(err.message || "Failed to export Word document.");
+    }
+  };
+
+  const handleExportMarks = async (format: 'csv' | 'xlsx') => {
+    if (!report) return;
+    try {
+      if (format === 'csv') exportMarksCsv([report]);
+      else await exportMarksXlsx([report]);
+    } catch (err: any) {
+      console.error("Marks export failure:", err);
+      setError(err.message || "Failed to export marks.");
+    }
+  };
+
+  const handleExportJson = () => {
+    if (!report) return;
+    exportReportToJson(report, auditHistory.find(r => r.id === currentAuditId));
+  };
+
+  // Imported reports are saved to history like a fresh audit, so edits persist.
+  const handleImportJson = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { report: imported, metadata } = parseReportExport(await file.text());
+      const auditId = await saveToHistory(imported, metadata.mode ?? 'without-manual', metadata.sourceFiles ?? { studentScript: file.name });
+      openReport(imported, auditId);
+    } catch (err: any) {
+      console.error("Report import failure:", err);
+      setError(err.message || "Failed to import the report.");
+    }
+  };
+
+  const handleExportPdf = async () => {
+    if (!report) return;
+    try {
+      await exportReportToPdf(report);
+    } catch (err: any) {
+      console.error("PDF export failure:", err);
+      setError(err.message || "Failed to export PDF.");
+    }
+  };
+
+  const handleDuplicateAudit = async (record: AuditRecord) => {
+    try {
+      await duplicateAudit(record);
+      refreshHistory();
+    } catch (err: any) {
+      setError(err.message || "Failed to duplicate audit.");
+    }
+  };
+
+  const handleDeleteAudit = async (record: AuditRecord) => {
+    try {
+      await deleteAudit(record.id);
+      if (currentAuditId === record.id) setCurrentAuditId(null);
+      refreshHistory();
+    } catch (err: any) {
+      setError(err.message || "Failed to delete audit.");
     }
   };
 
@@ -97,19 +452,142 @@ const App: React.FC = () => {
     <div className="min-h-screen flex flex-col bg-slate-50 selection:bg-red-100 selection:text-red-900">
       <nav className="h-16 border-b bg-white/80 backdrop-blur-md flex items-center px-6 md:px-12 justify-between sticky top-0 z-50 no-print shadow-sm">
         <div className="flex items-center gap-3">
-          
+          <div className="w-8 h-8 bg-red-600 rounded-lg flex items-center justify-center text-white font-black shadow-lg">A</div>
+          <span className="font-extrabold text-lg text-slate-900 tracking-tight">AnatomyGuru <span className="text-red-600">Audit</span></span>
         </div>
-        {view === 'report' && (
+        {currentUser && view !== 'report' && (
           <div className="flex items-center gap-2">
+            <span className="hidden sm:inline text-[10px] font-black uppercase tracking-wider text-slate-500">
+              {currentUser.name} • {ROLE_LABELS[currentUser.role]}
+            </span>
+            {view === 'dashboard' && (
+              <button 
+                onClick={() => setView('history')}
+                className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider"
+              >
+                History ({auditHistory.length})
+              </button>
+            )}
+            {view === 'dashboard' && (
+              <button 
+                onClick={() => setView('students')}
+                className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider"
+              >
+                Students
+              </button>
+            )}
+            {view === 'dashboard' && (
+              <label className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider cursor-pointer">
+                Import JSON
+                <input type="file" accept=".json,application/json" onChange={handleImportJson} className="hidden" />
+              </label>
+            )}
+            {view === 'dashboard' && (
+              <button 
+                onClick={() => setView('analytics')}
+                className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider"
+              >
+                Analytics
+              </button>
+            )}
+            <button 
+              onClick={() => signOut()}
+              className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider"
+            >
+              Sign Out
+            </button>
+          </div>
+        )}
+        {currentUser && view === 'report' && (
+          <div className="flex items-center gap-2">
+            <button 
+              onClick={handleExportPdf}
+              disabled={isEditing || exportBlocked}
+              title={exportBlocked ? 'Resolve the scoring integrity issues first' : undefined}
+              className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider flex items-center gap-2 disabled:opacity-40"
+            >
+              <svg className="w-3.5 h-3.5 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+              PDF
+            </button>
+            <button 
+              onClick={handleExportWord}
+              disabled={isEditing || exportBlocked}
+              title={exportBlocked ? 'Resolve the scoring integrity issues first' : undefined}
+              className="text-[10px] font-black bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 transition-all shadow-md active:scale-95 uppercase tracking-wider disabled:opacity-40"
+            >
+              Word
+            </button>
+            <button 
+              onClick={() => handleExportMarks('csv')}
+              disabled={isEditing || exportBlocked}
+              title={exportBlocked ? 'Resolve the scoring integrity issues first' : undefined}
+              className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider disabled:opacity-40"
+            >
+              CSV
+            </button>
+            <button 
+              onClick={() => handleExportMarks('xlsx')}
+              disabled={isEditing || exportBlocked}
+              title={exportBlocked ? 'Resolve the scoring integrity issues first' : undefined}
+              className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider disabled:opacity-40"
+            >
+              XLSX
+            </button>
             <button 
-              onClick={() => window.print()}
-              className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider flex items-center gap-2"
+              onClick={handleExportJson}
+              disabled={isEditing}
+              className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider disabled:opacity-40"
             >
-              <svg className="w-3.5 h-3.5 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 012-2H5a2 2 0 012 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" /></svg>
-              Print
+              JSON
             </button>
+            {isEditing && (
+              <>
+                <button 
+                  onClick={undoEdit}
+                  disabled={!canUndo}
+                  className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider disabled:opacity-40"
+                >
+                  Undo
+                </button>
+                <button 
+                  onClick={redoEdit}
+                  disabled={!canRedo}
+                  className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider disabled:opacity-40"
+                >
+                  Redo
+                </button>
+              </>
+            )}
+            {report?.approvedBy ? (
+              <span className="text-[10px] font-black bg-emerald-50 text-emerald-700 border border-emerald-200 px-3 py-2 rounded-lg uppercase tracking-wider">
+                Approved
+              </span>
+            ) : currentUser && canApprove(currentUser) && (
+              <button 
+                onClick={handleApprove}
+                disabled={isEditing || exportBlocked}
+                title={exportBlocked ? 'Resolve the scoring integrity issues first' : undefined}
+                className="text-[10px] font-black bg-emerald-600 text-white px-3 py-2 rounded-lg hover:bg-emerald-700 transition-all shadow-md active:scale-95 uppercase tracking-wider disabled:opacity-40"
+              >
+                Approve
+              </button>
+            )}
             <button 
-              onClick={() => { setView('dashboard'); setReport(null); }}
+              onClick={() => setIsEditing(!isEditing)}
+              className={`text-[10px] font-black border px-3 py-2 rounded-lg transition-all shadow-sm active:scale-95 uppercase tracking-wider ${isEditing ? 'bg-blue-600 text-white border-blue-600 hover:bg-blue-700' : 'bg-white text-slate-900 border-slate-200 hover:bg-slate-50'}`}
+            >
+              {isEditing ? 'Done Editing' : 'Edit'}
+            </button>
+            {openedBatchItemId && (
+              <button 
+                onClick={() => { setView('dashboard'); setReport(null); }}
+                className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 transition-all shadow-sm active:scale-95 uppercase tracking-wider"
+              >
+                Class List
+              </button>
+            )}
+            <button 
+              onClick={() => { setView('dashboard'); setReport(null); setInputMode('single'); }}
               className="text-[10px] font-black bg-slate-900 text-white px-3 py-2 rounded-lg hover:bg-slate-800 transition-all shadow-md active:scale-95 uppercase tracking-wider"
             >
               New Audit
@@ -119,7 +597,39 @@ const App: React.FC = () => {
       </nav>
 
       <main className="flex-1 flex flex-col">
-        {view === 'dashboard' ? (
+        {!session ? (
+          <LoginScreen onLogin={(next) => { setSession(next); setSessionNotice(null); }} notice={sessionNotice} />
+        ) : view === 'history' ? (
+          <HistoryView
+            records={auditHistory}
+            onOpen={(record) => openReport(record.report, record.id)}
+            onDuplicate={handleDuplicateAudit}
+            onDelete={handleDeleteAudit}
+            onClose={() => setView('dashboard')}
+          />
+        ) : view === 'students' ? (
+          <StudentsView
+            students={students}
+            records={auditHistory}
+            onAdd={(student) => setStudents(addStudent(student))}
+            onDelete={(id) => setStudents(deleteStudent(id))}
+            onOpen={(record) => openReport(record.report, record.id)}
+            onClose={() => setView('dashboard')}
+          />
+        ) : view === 'analytics' ? (
+          <AnalyticsView
+            records={auditHistory}
+            onOpen={(record) => openReport(record.report, record.id)}
+            onClose={() => setView('dashboard')}
+          />
+        ) : view === 'templates' ? (
+          <TemplateManager
+            templates={templates}
+            onSave={handleSaveTemplate}
+            onDelete={handleDeleteTemplate}
+            onClose={() => setView('dashboard')}
+          />
+        ) : view === 'dashboard' ? (
           <div className="max-w-4xl mx-auto py-12 px-6 animate-fade-in w-full">
             <div className="text-center mb-10">
               <span className="px-3 py-1 bg-red-50 text-red-600 text-[10px] font-black rounded-full uppercase tracking-widest border border-red-100 mb-4 inline-block">Medical Education SaaS</span>
@@ -144,51 +654,182 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            <div className="grid md:grid-cols-2 gap-6 mb-10">
-              <FileUploader 
-                label="Student Paper" 
-                description="Upload Answer Sheet (PDF/Image/DOCX)" 
-                onFileSelect={setSourceDoc} 
-                selectedFile={sourceDoc} 
-                icon={<svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>}
-              />
-              {evalMode === 'with-manual' && (
-                <FileUploader 
-                  label="Faculty Notes" 
-                  description="Upload Handwritten Marks (Image/PDF)" 
-                  onFileSelect={setDirtyFeedbackDoc} 
-                  selectedFile={dirtyFeedbackDoc} 
-                  icon={<svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>}
-                />
-              )}
+            <div className="flex justify-center -mt-6 mb-10">
+              <div className="bg-slate-200/50 p-1 rounded-2xl border border-slate-200 flex shadow-inner">
+                <button 
+                  onClick={() => setInputMode('single')} 
+                  className={`px-5 py-2 rounded-xl text-xs font-black transition-all ${inputMode === 'single' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  SINGLE SCRIPT
+                </button>
+                <button 
+                  onClick={() => setInputMode('batch')} 
+                  className={`px-5 py-2 rounded-xl text-xs font-black transition-all ${inputMode === 'batch' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  WHOLE CLASS
+                </button>
+              </div>
             </div>
 
             {error && (
-              <div className="bg-rose-50 text-rose-700 p-4 rounded-2xl mb-8 font-bold text-sm border border-rose-100 flex items-center gap-4 animate-fade-in shadow-sm">
+              <div className="bg-rose-50 text-rose-700 p-4 rounded-2xl mb-8 font-bold text-sm border border-rose-100 flex items-center gap-4 animate-fade-in shadow-sm whitespace-pre-line">
                 <svg className="w-6 h-6 shrink-0 text-rose-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
                 {error}
               </div>
             )}
 
-            <button 
-              onClick={handleAnalyze} 
-              disabled={isLoading || !sourceDoc || (evalMode === 'with-manual' && !dirtyFeedbackDoc)}
-              className={`w-full py-6 rounded-2xl font-black text-xl shadow-2xl transition-all flex items-center justify-center gap-4 ${isLoading ? 'bg-slate-100 text-slate-400 cursor-wait' : 'bg-slate-900 text-white hover:bg-slate-800 hover:-translate-y-1 active:scale-[0.98]'}`}
-            >
-              {isLoading ? (
-                <>
-                  <svg className="animate-spin h-6 w-6 text-red-500" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                  <span className="uppercase tracking-widest text-sm">{loadingStep || 'Processing...'}</span>
-                </>
-              ) : (
-                'Generate Feedback Report'
-              )}
-            </button>
+            <div className="flex flex-col sm:flex-row items-center gap-3 mb-6 bg-white border border-slate-200 rounded-2xl px-5 py-4 shadow-sm">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 shrink-0">Test Template</span>
+              <select
+                value={selectedTemplateId}
+                onChange={(e) => setSelectedTemplateId(e.target.value)}
+                className="flex-1 w-full px-3 py-2 rounded-lg border border-slate-200 text-sm font-bold text-slate-800 bg-white"
+              >
+                <option value="">None (AI infers questions and marks)</option>
+                {templates.map(t => (
+                  <option key={t.id} value={t.id}>
+                    {t.title} • {t.questions.length} Qs • {templateMaxScore(t)} marks
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setView('templates')}
+                className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 uppercase tracking-wider shrink-0"
+              >
+                Manage
+              </button>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-6 mb-6">
+              <div>
+                <FileUploader 
+                  label="Question Paper" 
+                  description="Optional • Reused across students (PDF/Image/DOCX)" 
+                  onFilesSelect={selectDocument('questionPaper', setQuestionPaperDoc)} 
+                  selectedFiles={questionPaperDoc} 
+                  icon={<svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>}
+                />
+                {renderPreparedPages('questionPaper')}
+              </div>
+              <div>
+                <FileUploader 
+                  label="Answer Key" 
+                  description={inputMode === 'batch' ? 'Required • Shared by the whole class' : 'Reused across students (PDF/Image/DOCX)'} 
+                  onFilesSelect={selectDocument('answerKey', setAnswerKeyDoc)} 
+                  selectedFiles={answerKeyDoc} 
+                  icon={<svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" /></svg>}
+                />
+                {renderPreparedPages('answerKey')}
+              </div>
+            </div>
+
+            {inputMode === 'single' ? (
+              <>
+                <div className="grid md:grid-cols-2 gap-6 mb-10">
+                  <div>
+                    <FileUploader 
+                      label="Student Script" 
+                      description="Upload Answer Sheet (PDF/Image/DOCX)" 
+                      onFilesSelect={selectDocument('studentScript', setSourceDoc)} 
+                      allowCamera
+                      selectedFiles={sourceDoc} 
+                      icon={<svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>}
+                    />
+                    {renderPreparedPages('studentScript')}
+                  </div>
+                  {evalMode === 'with-manual' && (
+                    <div>
+                      {renderNotesSourceToggle()}
+                      {notesSource === 'sheet' ? (
+                        <MarksSheetImport
+                          sheet={marksSheet}
+                          onSheetChange={(sheet) => { setMarksSheet(sheet); setMarksStudentIndex(0); }}
+                          selectedIndex={marksStudentIndex}
+                          onSelect={setMarksStudentIndex}
+                        />
+                      ) : (
+                        <>
+                          <FileUploader 
+                            label="Faculty Notes" 
+                            description="Upload Handwritten Marks (Image/PDF)" 
+                            onFilesSelect={selectDocument('facultyNotes', setDirtyFeedbackDoc)} 
+                            allowCamera
+                            selectedFiles={dirtyFeedbackDoc} 
+                            icon={<svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>}
+                          />
+                          {renderPreparedPages('facultyNotes')}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <button 
+                  onClick={handleAnalyze} 
+                  disabled={isLoading || sourceDoc.length === 0 || notesMissing}
+                  className={`w-full py-6 rounded-2xl font-black text-xl shadow-2xl transition-all flex items-center justify-center gap-4 ${isLoading ? 'bg-slate-100 text-slate-400 cursor-wait' : 'bg-slate-900 text-white hover:bg-slate-800 hover:-translate-y-1 active:scale-[0.98]'}`}
+                >
+                  {isLoading ? (
+                    <>
+                      <svg className="animate-spin h-6 w-6 text-red-500" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                      <span className="uppercase tracking-widest text-sm">{loadingStep || 'Processing...'}</span>
+                    </>
+                  ) : (
+                    'Generate Feedback Report'
+                  )}
+                </button>
+                {isLoading && (
+                  <button
+                    onClick={handleCancelAnalyze}
+                    className="mt-3 w-full py-3 rounded-2xl font-black text-xs uppercase tracking-widest bg-white text-rose-600 border border-rose-200 hover:bg-rose-50 transition-all active:scale-[0.98]"
+                  >
+                    Cancel Audit
+                  </button>
+                )}
+                {isLoading && progress && progress.questions.length > 0 && (
+                  <FeedbackReport report={progressPreviewReport(progress)} isStreaming />
+                )}
+                {currentUser?.role === 'admin' && (
+                  <PromptComparison
+                    disabled={isLoading || sourceDoc.length === 0 || notesMissing}
+                    onCompare={handleComparePrompts}
+                    onOpen={(r) => openReport(r, null)}
+                  />
+                )}
+              </>
+            ) : (
+              <>
+                {evalMode === 'with-manual' && (
+                  <div className="mb-6">
+                    <MarksSheetImport sheet={marksSheet} onSheetChange={setMarksSheet} />
+                  </div>
+                )}
+                <BatchPanel
+                  items={batchItems}
+                  isRunning={isBatchRunning}
+                  requiresNotes={evalMode === 'with-manual'}
+                  marksSheet={evalMode === 'with-manual' ? marksSheet : null}
+                  onAddFiles={(students, notes) => setBatchItems(prev => [...prev, ...createBatchItems(students, notes)])}
+                  onRun={() => runBatch(batchItems)}
+                  onRetry={handleRetryBatchItem}
+                  onRemove={(id) => setBatchItems(prev => prev.filter(i => i.id !== id))}
+                  onClear={() => setBatchItems([])}
+                  onOpen={handleOpenBatchItem}
+                />
+              </>
+            )}
             <p className="mt-8 text-center text-slate-400 text-[10px] font-bold uppercase tracking-widest">Supports PDF • Image • DOCX</p>
           </div>
         ) : (
           <div className="flex-1 overflow-auto bg-slate-100 py-8 px-4 sm:px-8">
-             <FeedbackReport report={report} />
+             {error && (
+               <div className="max-w-[850px] mx-auto mb-6 bg-rose-50 text-rose-700 p-4 rounded-2xl font-bold text-sm border border-rose-100 no-print">
+                 {error}
+               </div>
+             )}
+             {report && <StudentLink report={report} students={students} onChange={handleLinkStudent} />}
+             {report && <IntegrityPanel report={report} onChange={editReportContent} />}
+             <FeedbackReport report={report} isEditing={isEditing} onChange={editReportContent} />
           </div>
         )}
       </main>
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { AuditRecord } from '../types';
+import { analyticsToCsvRows, computeClassAnalytics, groupAuditsByTest, weaknessSectionLabel } from '../services/classAnalytics';
+import { downloadCsv } from '../services/csv';
+
+interface AnalyticsViewProps {
+  records: AuditRecord[];
+  onOpen: (record: AuditRecord) => void;
+  onClose: () => void;
+}
+
+const card = 'bg-white border border-slate-200 rounded-2xl shadow-sm p-5 mb-6';
+const heading = 'text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3';
+
+const AnalyticsView: React.FC<AnalyticsViewProps> = ({ records, onOpen, onClose }) => {
+  const groups = useMemo(() => groupAuditsByTest(records), [records]);
+  const [groupKey, setGroupKey] = useState<string>('');
+  const group = groups.find(g => g.key === groupKey) || groups[0];
+  const analytics = useMemo(() => (group ? computeClassAnalytics(group.records.map(r => r.report)) : null), [group]);
+  const peak = analytics ? Math.max(1, ...analytics.histogram.map(b => b.count)) : 1;
+
+  const handleExport = () => {
+    if (!group || !analytics) return;
+    const slug = group.testTitle.replace(/[^A-Za-z0-9]+/g, '_');
+    downloadCsv(`${slug}_Class_Analytics.csv`, analyticsToCsvRows(group, analytics));
+  };
+
+  // Ranking rows link back to the audit they were computed from.
+  const recordFor = (studentName: string) => group?.records.find(r => (r.report.studentName || 'Unknown Student') === studentName);
+
+  return (
+    <div className="max-w-5xl mx-auto py-12 px-6 animate-fade-in w-full">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-black tracking-tight text-slate-900">Class <span className="text-red-600">Analytics</span></h1>
+        <div className="flex gap-2">
+          <button onClick={handleExport} disabled={!analytics} className="text-[10px] font-black bg-slate-900 text-white px-3 py-2 rounded-lg hover:bg-slate-800 uppercase tracking-wider disabled:opacity-40">
+            Export CSV
+          </button>
+          <button onClick={onClose} className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 uppercase tracking-wider">
+            Back
+          </button>
+        </div>
+      </div>
+
+      {!group || !analytics ? (
+        <div className="p-16 text-center text-slate-400 font-bold uppercase tracking-widest text-xs bg-white border border-slate-200 rounded-2xl">
+          No saved audits yet.
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-6 bg-white border border-slate-200 rounded-2xl px-5 py-4 shadow-sm">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 shrink-0">Test</span>
+            <select
+              value={group.key}
+              onChange={(e) => setGroupKey(e.target.value)}
+              className="flex-1 px-3 py-2 rounded-xl border border-slate-200 text-sm font-semibold text-slate-800 bg-white focus:outline-none focus:border-red-400"
+            >
+              {groups.map(g => (
+                <option key={g.key} value={g.key}>
+                  {g.testTitle}{g.testDate ? ` • ${g.testDate}` : ''} ({g.records.length} student{g.records.length === 1 ? '' : 's'})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className={card}>
+            <h3 className={heading}>Per-question marks</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400 text-left">
+                  <th className="py-1">Q No</th>
+                  <th className="py-1 text-center">Mean</th>
+                  <th className="py-1 text-center">Median</th>
+                  <th className="py-1">Unattempted</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {analytics.questions.map(q => (
+                  <tr key={q.qNo}>
+                    <td className="py-1.5 font-bold text-slate-800">{q.qNo}</td>
+                    <td className="py-1.5 text-center font-semibold text-slate-700">{q.mean} / {q.maxMarks}</td>
+                    <td className="py-1.5 text-center font-semibold text-slate-700">{q.median} / {q.maxMarks}</td>
+                    <td className="py-1.5">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-red-500" style={{ width: `${q.unattemptedPct}%` }} />
+                        </div>
+                        <span className="w-12 text-right text-xs font-bold text-slate-600">{Math.round(q.unattemptedPct)}%</span>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className={card}>
+              <h3 className={heading}>Score distribution</h3>
+              <div className="flex items-end gap-1 h-40">
+                {analytics.histogram.map(bucket => (
+                  <div key={bucket.label} className="flex-1 flex flex-col items-center justify-end h-full" title={`${bucket.label}: ${bucket.count}`}>
+                    <span className="text-[10px] font-black text-slate-600">{bucket.count || ''}</span>
+                    <div className="w-full bg-blue-500 rounded-t" style={{ height: `${(bucket.count / peak) * 100}%` }} />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between mt-1 text-[10px] font-bold text-slate-400">
+                <span>0%</span><span>50%</span><span>100%</span>
+              </div>
+            </div>
+
+            <div className={card}>
+              <h3 className={heading}>Top recurring weaknesses</h3>
+              {analytics.weaknesses.length === 0 ? (
+                <p className="text-xs font-semibold text-slate-400">No weakness is shared by more than one student yet.</p>
+              ) : (
+                <ul className="space-y-1.5">
+                  {analytics.weaknesses.map(w => (
+                    <li key={`${w.section}-${w.label}`} className="flex items-center gap-2 text-sm">
+                      <span className="flex-1 font-semibold text-slate-800 first-letter:uppercase">{w.label}</span>
+                      <span className="text-[10px] font-black uppercase tracking-wider text-slate-400">{weaknessSectionLabel(w.section)}</span>
+                      <span className="w-10 text-right text-xs font-black text-red-600">{w.students}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div className={card}>
+            <h3 className={heading}>Ranking</h3>
+            <ul className="divide-y divide-slate-100">
+              {analytics.ranking.map((r, idx) => {
+                const record = recordFor(r.studentName);
+                return (
+                  <li key={idx} className="flex items-center gap-3 py-2">
+                    <span className="w-8 text-sm font-black text-slate-400">#{r.rank}</span>
+                    <span className="flex-1 text-sm font-bold text-slate-800 truncate">{r.studentName}</span>
+                    <span className="text-sm font-semibold text-slate-600">{r.score} / {r.maxScore}</span>
+                    <span className="w-14 text-right text-sm font-black text-slate-900">{Math.round(r.percentage)}%</span>
+                    {record && (
+                      <button onClick={() => onOpen(record)} className="text-[10px] font-black uppercase tracking-wider bg-white border border-slate-200 px-3 py-1.5 rounded-lg hover:bg-slate-50">
+                        Open
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsView;
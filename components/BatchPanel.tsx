@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { BatchItem, BatchItemStatus } from '../types';
+import { FacultyMarksSheet, findMarksForFile, studentLabel } from '../services/marksSheet';
+
+interface BatchPanelProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  requiresNotes: boolean;
+  // Scripts without a notes file are matched to a sheet row by file name.
+  marksSheet?: FacultyMarksSheet | null;
+  onAddFiles: (studentFiles: File[], notesFiles: File[]) => void;
+  onRun: () => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onOpen: (item: BatchItem) => void;
+}
+
+const statusStyles: Record<BatchItemStatus, string> = {
+  queued: 'bg-slate-100 text-slate-500 border-slate-200',
+  processing: 'bg-blue-50 text-blue-700 border-blue-100',
+  done: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  failed: 'bg-rose-50 text-rose-700 border-rose-100',
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ items, isRunning, requiresNotes, marksSheet, onAddFiles, onRun, onRetry, onRemove, onClear, onOpen }) => {
+  const [studentFiles, setStudentFiles] = useState<File[]>([]);
+  const [notesFiles, setNotesFiles] = useState<File[]>([]);
+
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const failedCount = items.filter(i => i.status === 'failed').length;
+  const pendingCount = items.length - doneCount;
+  const activeIndex = items.findIndex(i => i.status === 'processing');
+
+  const notesLabel = (item: BatchItem) => {
+    if (item.notesFile) return `Notes: ${item.notesFile.name}`;
+    const sheetRow = marksSheet ? findMarksForFile(marksSheet, item.studentFile.name) : null;
+    if (sheetRow) return `Marks sheet: ${studentLabel(sheetRow)}`;
+    return requiresNotes ? 'No faculty notes matched • AI only' : 'AI only';
+  };
+
+  const handleAdd = () => {
+    if (studentFiles.length === 0) return;
+    onAddFiles(studentFiles, notesFiles);
+    setStudentFiles([]);
+    setNotesFiles([]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-2 gap-6">
+        <label className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-slate-300 rounded-xl bg-white hover:border-blue-500 transition-colors cursor-pointer relative">
+          <input
+            type="file"
+            multiple
+            onChange={(e) => setStudentFiles(Array.from(e.target.files || []))}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            accept="application/pdf,image/*,.docx"
+          />
+          <h3 className="text-lg font-semibold text-slate-800">Student Answer Sheets</h3>
+          <p className="text-sm text-slate-500 text-center mt-1">Select all scripts for the class</p>
+          {studentFiles.length > 0 && (
+            <div className="mt-4 px-4 py-2 bg-blue-50 text-blue-700 rounded-full text-xs font-medium border border-blue-100">
+              {studentFiles.length} file(s) selected
+            </div>
+          )}
+        </label>
+        <label className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-slate-300 rounded-xl bg-white hover:border-blue-500 transition-colors cursor-pointer relative">
+          <input
+            type="file"
+            multiple
+            onChange={(e) => setNotesFiles(Array.from(e.target.files || []))}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            accept="application/pdf,image/*,.docx"
+          />
+          <h3 className="text-lg font-semibold text-slate-800">Faculty Notes (Optional)</h3>
+          <p className="text-sm text-slate-500 text-center mt-1">Paired to scripts by file name</p>
+          {notesFiles.length > 0 && (
+            <div className="mt-4 px-4 py-2 bg-blue-50 text-blue-700 rounded-full text-xs font-medium border border-blue-100">
+              {notesFiles.length} file(s) selected
+            </div>
+          )}
+        </label>
+      </div>
+
+      <button
+        onClick={handleAdd}
+        disabled={studentFiles.length === 0 || isRunning}
+        className="w-full py-3 rounded-xl text-xs font-black uppercase tracking-widest border border-slate-200 bg-white text-slate-900 hover:bg-slate-50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        Add To Class Queue
+      </button>
+
+      {items.length > 0 && (
+        <div className="bg-white border border-slate-200 rounded-2xl shadow-sm overflow-hidden">
+          <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+              Class List • {doneCount}/{items.length} evaluated{failedCount > 0 ? ` • ${failedCount} failed` : ''}
+            </span>
+            <button
+              onClick={onClear}
+              disabled={isRunning}
+              className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-rose-600 disabled:opacity-40"
+            >
+              Clear
+            </button>
+          </div>
+          <div className="h-1 bg-slate-100">
+            <div className="h-1 bg-red-600 transition-all" style={{ width: `${(doneCount / items.length) * 100}%` }} />
+          </div>
+          <ul className="divide-y divide-slate-100">
+            {items.map(item => (
+              <li key={item.id} className="flex items-center gap-3 px-5 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-slate-800 truncate">
+                    {item.report?.studentName || item.studentFile.name}
+                  </p>
+                  <p className="text-[11px] text-slate-400 truncate">
+                    {notesLabel(item)}
+                  </p>
+                  {item.error && <p className="text-[11px] text-rose-600 font-semibold truncate">{item.error}</p>}
+                </div>
+                {item.report && (
+                  <span className="text-xs font-black text-slate-700">
+                    {item.report.questions?.reduce((acc, q) => acc + (Number(q.marks) || 0), 0)} / {item.report.maxScore || 100}
+                  </span>
+                )}
+                <span className={`px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-wider border ${statusStyles[item.status]}`}>
+                  {item.status}
+                </span>
+                {item.status === 'done' && (
+                  <button onClick={() => onOpen(item)} className="text-[10px] font-black uppercase tracking-wider bg-slate-900 text-white px-3 py-1.5 rounded-lg hover:bg-slate-800">
+                    Open
+                  </button>
+                )}
+                {item.status === 'failed' && (
+                  <button onClick={() => onRetry(item.id)} disabled={isRunning} className="text-[10px] font-black uppercase tracking-wider bg-white border border-slate-200 px-3 py-1.5 rounded-lg hover:bg-slate-50 disabled:opacity-40">
+                    Retry
+                  </button>
+                )}
+                {item.status !== 'processing' && (
+                  <button onClick={() => onRemove(item.id)} disabled={isRunning} className="text-slate-300 hover:text-rose-600 disabled:opacity-40" title="Remove from queue">
+                    ✕
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <button
+        onClick={onRun}
+        disabled={isRunning || pendingCount === 0}
+        className={`w-full py-6 rounded-2xl font-black text-xl shadow-2xl transition-all flex items-center justify-center gap-4 ${isRunning ? 'bg-slate-100 text-slate-400 cursor-wait' : 'bg-slate-900 text-white hover:bg-slate-800 hover:-translate-y-1 active:scale-[0.98] disabled:opacity-40 disabled:hover:translate-y-0'}`}
+      >
+        {isRunning ? (
+          <span className="uppercase tracking-widest text-sm">Evaluating {activeIndex + 1} of {items.length}...</span>
+        ) : failedCount > 0 && pendingCount === failedCount ? (
+          `Retry ${failedCount} Failed`
+        ) : (
+          `Evaluate ${pendingCount} Script${pendingCount === 1 ? '' : 's'}`
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default BatchPanel;
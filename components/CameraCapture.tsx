@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PageImage } from '../types';
+import { canvasToPage, scaleFor } from '../services/pageImages';
+import { CaptureEdits, CropMargins, DEFAULT_EDITS, MAX_SKEW_DEGREES, Rotation, applyEdits, detectSkew, snapshot } from '../services/imageEditing';
+
+interface CameraCaptureProps {
+  label: string;
+  onDone: (pages: PageImage[]) => void;
+  onClose: () => void;
+}
+
+interface Shot {
+  id: string;
+  source: HTMLCanvasElement;
+  edits: CaptureEdits;
+  preview: string;
+}
+
+// Frames are kept larger than the upload target so cropping still leaves enough detail.
+const SOURCE_MAX_DIMENSION = 2400;
+const PREVIEW_MAX_DIMENSION = 480;
+
+const renderPreview = (source: HTMLCanvasElement, edits: CaptureEdits) =>
+  applyEdits(snapshot(source, source.width, source.height, PREVIEW_MAX_DIMENSION), edits).toDataURL('image/jpeg', 0.7);
+
+const createShot = (source: HTMLCanvasElement): Shot => ({
+  id: `shot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  source,
+  edits: DEFAULT_EDITS,
+  preview: renderPreview(source, DEFAULT_EDITS),
+});
+
+const buttonClass = 'text-[10px] font-black uppercase tracking-wider bg-white border border-slate-200 px-3 py-1.5 rounded-lg hover:bg-slate-50 disabled:opacity-40';
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ label, onDone, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isFinishing, setIsFinishing] = useState(false);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError("Live camera is not available in this browser. Use \"Take Photo\" instead.");
+      return;
+    }
+    // The modal can close before permission is granted; that stream must still be stopped.
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment', width: { ideal: 2560 }, height: { ideal: 1920 } }, audio: false })
+      .then(stream => {
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) videoRef.current.srcObject = stream;
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error("Camera access failed:", err);
+        setCameraError("Camera access was denied or no camera was found. Use \"Take Photo\" instead.");
+      });
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const selected = shots.find(s => s.id === selectedId) || null;
+
+  const addShot = (source: HTMLCanvasElement) => {
+    const shot = createShot(source);
+    setShots(prev => [...prev, shot]);
+    setSelectedId(shot.id);
+  };
+
+  const captureFrame = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    addShot(snapshot(video, video.videoWidth, video.videoHeight, SOURCE_MAX_DIMENSION));
+  };
+
+  // Fallback for browsers without getUserMedia: the OS camera via a capture input.
+  const handlePhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    for (const file of files) {
+      try {
+        const bitmap = await createImageBitmap(file);
+        addShot(snapshot(bitmap, bitmap.width, bitmap.height, SOURCE_MAX_DIMENSION));
+        bitmap.close();
+      } catch (err) {
+        console.error(`Failed to read photo ${file.name}:`, err);
+      }
+    }
+  };
+
+  const updateEdits = (id: string, patch: Partial<CaptureEdits>) => {
+    setShots(prev => prev.map(shot => {
+      if (shot.id !== id) return shot;
+      const edits = { ...shot.edits, ...patch };
+      return { ...shot, edits, preview: renderPreview(shot.source, edits) };
+    }));
+  };
+
+  const updateCrop = (id: string, side: keyof CropMargins, value: number) => {
+    if (!selected) return;
+    updateEdits(id, { crop: { ...selected.edits.crop, [side]: value } });
+  };
+
+  const moveShot = (idx: number, delta: number) => {
+    setShots(prev => {
+      const target = idx + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[idx], next[target]] = [next[target], next[idx]];
+      return next;
+    });
+  };
+
+  const removeShot = (id: string) => {
+    setShots(prev => prev.filter(s => s.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleDone = () => {
+    setIsFinishing(true);
+    // Let the button state paint before the full-resolution renders block the thread.
+    setTimeout(() => {
+      const pages = shots.map((shot, idx) => {
+        const edited = applyEdits(shot.source, shot.edits);
+        const scale = scaleFor(edited.width, edited.height);
+        return canvasToPage(scale < 1 ? snapshot(edited, edited.width, edited.height) : edited, idx + 1);
+      });
+      onDone(pages);
+    }, 0);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/80 flex items-center justify-center p-4 no-print" onClick={(e) => e.stopPropagation()}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[95vh] overflow-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-black tracking-tight text-slate-900">Capture <span className="text-red-600">{label}</span></h2>
+          <button onClick={onClose} className={buttonClass}>Close</button>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            {cameraError ? (
+              <div className="bg-amber-50 text-amber-800 p-4 rounded-xl text-sm font-semibold border border-amber-200">{cameraError}</div>
+            ) : (
+              <video ref={videoRef} autoPlay playsInline muted className="w-full rounded-xl bg-slate-900 aspect-[3/4] object-cover" />
+            )}
+            <div className="flex gap-2 mt-3">
+              {!cameraError && (
+                <button onClick={captureFrame} className="flex-1 py-3 rounded-xl font-black text-xs uppercase tracking-widest bg-slate-900 text-white hover:bg-slate-800 active:scale-[0.98]">
+                  Capture Page
+                </button>
+              )}
+              <label className="flex-1 py-3 rounded-xl font-black text-xs uppercase tracking-widest bg-white border border-slate-200 text-slate-900 hover:bg-slate-50 text-center cursor-pointer">
+                Take Photo
+                <input type="file" accept="image/*" capture="environment" multiple onChange={handlePhotos} className="hidden" />
+              </label>
+            </div>
+          </div>
+
+          <div>
+            {selected ? (
+              <div className="space-y-3">
+                <img src={selected.preview} alt="Selected page" className="w-full max-h-80 object-contain bg-slate-100 rounded-xl" />
+                <div className="flex flex-wrap gap-2">
+                  <button onClick={() => updateEdits(selected.id, { rotation: ((selected.edits.rotation + 270) % 360) as Rotation })} className={buttonClass}>⟲ Rotate</button>
+                  <button onClick={() => updateEdits(selected.id, { rotation: ((selected.edits.rotation + 90) % 360) as Rotation })} className={buttonClass}>⟳ Rotate</button>
+                  <button onClick={() => updateEdits(selected.id, { skew: detectSkew(selected.source, selected.edits.rotation) })} className={buttonClass}>Auto Deskew</button>
+                  <button
+                    onClick={() => updateEdits(selected.id, { enhance: !selected.edits.enhance })}
+                    className={`${buttonClass} ${selected.edits.enhance ? '!bg-blue-600 !text-white !border-blue-600' : ''}`}
+                  >
+                    Enhance
+                  </button>
+                </div>
+                <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500">
+                  Deskew {selected.edits.skew.toFixed(1)}°
+                  <input
+                    type="range"
+                    min={-MAX_SKEW_DEGREES}
+                    max={MAX_SKEW_DEGREES}
+                    step={0.5}
+                    value={selected.edits.skew}
+                    onChange={(e) => updateEdits(selected.id, { skew: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </label>
+                <div className="grid grid-cols-2 gap-x-4">
+                  {(['top', 'bottom', 'left', 'right'] as (keyof CropMargins)[]).map(side => (
+                    <label key={side} className="block text-[10px] font-black uppercase tracking-widest text-slate-500">
+                      Crop {side} {Math.round(selected.edits.crop[side] * 100)}%
+                      <input
+                        type="range"
+                        min={0}
+                        max={0.45}
+                        step={0.01}
+                        value={selected.edits.crop[side]}
+                        onChange={(e) => updateCrop(selected.id, side, Number(e.target.value))}
+                        className="w-full"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="h-full min-h-[200px] flex items-center justify-center text-slate-400 text-xs font-black uppercase tracking-widest border-2 border-dashed border-slate-200 rounded-xl">
+                Capture a page, then select it to adjust
+              </div>
+            )}
+          </div>
+        </div>
+
+        {shots.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto mt-6 pb-1">
+            {shots.map((shot, idx) => (
+              <div key={shot.id} className={`shrink-0 w-20 border-2 rounded-lg overflow-hidden ${shot.id === selectedId ? 'border-blue-500' : 'border-slate-200'}`}>
+                <button onClick={() => setSelectedId(shot.id)} className="block">
+                  <img src={shot.preview} alt={`Page ${idx + 1}`} className="w-20 h-28 object-cover object-top bg-white" />
+                </button>
+                <div className="flex items-center justify-between px-1 py-0.5 text-[10px] font-black text-slate-600">
+                  <button onClick={() => moveShot(idx, -1)} disabled={idx === 0} className="px-1 disabled:opacity-25" title="Move earlier">←</button>
+                  <span>{idx + 1}</span>
+                  <button onClick={() => moveShot(idx, 1)} disabled={idx === shots.length - 1} className="px-1 disabled:opacity-25" title="Move later">→</button>
+                  <button onClick={() => removeShot(shot.id)} className="px-1 text-rose-600" title="Remove page">✕</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={handleDone}
+          disabled={shots.length === 0 || isFinishing}
+          className="mt-6 w-full py-4 rounded-2xl font-black text-sm uppercase tracking-widest bg-slate-900 text-white hover:bg-slate-800 active:scale-[0.98] disabled:opacity-40"
+        >
+          {isFinishing ? 'Preparing pages...' : `Use ${shots.length} Page${shots.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
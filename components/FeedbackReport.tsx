@@ -1,15 +1,71 @@
 
 import React from 'react';
-import { EvaluationReport } from '../types';
-
-// Using a placeholder logo path to avoid ESM import errors for non-JS files
-const logo = 'https://www.anatomyguru.in/assets/img/logo.jpg';
+import { EvaluationReport, GeneralFeedbackSection, QuestionFeedback } from '../types';
+import { FLAG_LEGEND, GENERAL_FEEDBACK_SECTIONS, REPORT_LOGO_URL, getQuestionStatus, parseBoldSegments, reportAttribution } from '../services/reportFormat';
+import { withRecomputedTotal } from '../services/scoringIntegrity';
 
 interface FeedbackReportProps {
   report: EvaluationReport | null;
+  isEditing?: boolean;
+  onChange?: (report: EvaluationReport, coalesceKey?: string) => void;
+  // Live preview while the audit is still generating: questions only, no general feedback.
+  isStreaming?: boolean;
+}
+
+// Feedback text may come from an imported file, so `**bold**` is rendered as elements, never as HTML.
+const BoldText: React.FC<{ text: string }> = ({ text }) => (
+  <span>
+    {parseBoldSegments(text).map((seg, i) => (seg.bold ? <strong key={i}>{seg.text}</strong> : <React.Fragment key={i}>{seg.text}</React.Fragment>))}
+  </span>
+);
+
+interface EditableListProps {
+  items: string[];
+  idPrefix: string;
+  onChange: (items: string[], coalesceKey?: string) => void;
 }
 
-const FeedbackReport: React.FC<FeedbackReportProps> = ({ report }) => {
+const EditableList: React.FC<EditableListProps> = ({ items, idPrefix, onChange }) => {
+  const move = (idx: number, delta: number) => {
+    const target = idx + delta;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2 no-print">
+      {items.map((item, i) => (
+        <div key={i} className="flex items-start gap-1">
+          <textarea
+            value={item}
+            rows={2}
+            onChange={(e) => onChange(items.map((it, j) => (j === i ? e.target.value : it)), `${idPrefix}-${i}`)}
+            className="flex-1 px-2 py-1 border border-slate-300 rounded text-[13px] leading-snug focus:outline-none focus:border-blue-500"
+          />
+          <div className="flex flex-col text-[11px] text-slate-400">
+            <button onClick={() => move(i, -1)} className="hover:text-slate-900" title="Move up">↑</button>
+            <button onClick={() => move(i, 1)} className="hover:text-slate-900" title="Move down">↓</button>
+            <button onClick={() => onChange(items.filter((_, j) => j !== i))} className="hover:text-rose-600" title="Remove point">✕</button>
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...items, ''])}
+        className="text-[10px] font-black uppercase tracking-wider text-blue-700 hover:text-blue-900"
+      >
+        + Add point
+      </button>
+    </div>
+  );
+};
+
+const editedBadge = (
+  <span className="block mt-1 text-[8px] font-black uppercase tracking-wider text-blue-700">Edited by faculty</span>
+);
+
+const FeedbackReport: React.FC<FeedbackReportProps> = ({ report, isEditing = false, onChange, isStreaming = false }) => {
   if (!report) {
     return (
       <div className="flex items-center justify-center p-20 text-slate-400 font-bold uppercase tracking-widest">
@@ -19,20 +75,24 @@ const FeedbackReport: React.FC<FeedbackReportProps> = ({ report }) => {
   }
 
   const calculatedSum = report.questions?.reduce((acc: number, q: any) => acc + (Number(q.marks) || 0), 0) || 0;
+  const editing = isEditing && !!onChange;
 
-  const getQuestionStatus = (q: any) => {
-    const marks = Number(q.marks) || 0;
-    const feedbackText = q.feedbackPoints?.join(' ').toLowerCase() || '';
-    
-    if (marks === 0 || feedbackText.includes('not attempted') || feedbackText.includes('skipped')) {
-      return 'unattempted';
-    }
-    
-    if (feedbackText.includes('excellent') || feedbackText.includes('perfect') || feedbackText.includes('precise') || feedbackText.includes('correct')) {
-      return 'correct';
-    }
-    
-    return 'partial';
+  const updateQuestion = (idx: number, patch: Partial<QuestionFeedback>, coalesceKey?: string) => {
+    const next = {
+      ...report,
+      questions: report.questions.map((q, i) => (i === idx ? { ...q, ...patch, isEdited: true } : q)),
+    };
+    // The total follows faculty mark corrections instead of tripping the total-mismatch check.
+    onChange?.('marks' in patch ? withRecomputedTotal(next) : next, coalesceKey);
+  };
+
+  const updateSection = (key: keyof GeneralFeedbackSection, items: string[], coalesceKey?: string) => {
+    const edited = report.editedSections || [];
+    onChange?.({
+      ...report,
+      generalFeedback: { ...report.generalFeedback, [key]: items },
+      editedSections: edited.includes(key) ? edited : [...edited, key],
+    }, coalesceKey);
   };
 
   const reportStyle: React.CSSProperties = {
@@ -61,7 +121,7 @@ const FeedbackReport: React.FC<FeedbackReportProps> = ({ report }) => {
         {items.map((item, i) => {
           return (
             <li key={i} className="text-slate-800 leading-tight" style={contentStyle}>
-               <span dangerouslySetInnerHTML={{ __html: item.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') }} />
+               <BoldText text={item} />
             </li>
           );
         })}
@@ -76,7 +136,7 @@ const FeedbackReport: React.FC<FeedbackReportProps> = ({ report }) => {
       <div className="flex flex-col items-center mb-2">
         <div className="flex items-center justify-center leading-none">
           <img
-            src={logo}
+            src={REPORT_LOGO_URL}
             alt="Anatomy Guru Logo"
             className="w-64 object-contain block m-0 p-0 rounded"
           />
@@ -104,7 +164,7 @@ const FeedbackReport: React.FC<FeedbackReportProps> = ({ report }) => {
       {report.questions?.some(q => q.isFlagged) && (
         <div className="mb-4 p-2 bg-amber-50 border border-amber-200 rounded text-[11px] text-amber-800 flex items-center gap-2 italic">
           <span className="text-lg">🚩</span>
-          <span>Indicates questions where a contradiction between manual notes and the official answer key was resolved using the Key.</span>
+          <span>{FLAG_LEGEND}</span>
         </div>
       )}
 
@@ -125,27 +185,67 @@ const FeedbackReport: React.FC<FeedbackReportProps> = ({ report }) => {
                 <tr key={idx} className={`border-b border-slate-300 ${status === 'unattempted' ? 'bg-red-50' : status === 'correct' ? 'bg-emerald-50' : ''}`}>
                   <td className="p-2 border-r border-slate-400 text-center font-bold text-slate-800 align-top relative" style={contentStyle}>
                     {q.qNo}
-                    {q.isFlagged && (
+                    {q.isFlagged && !editing && (
                       <div className="absolute top-1 right-1 cursor-help" title="Factual Contradiction Flag: Answer Key prioritized.">
                         <span className="text-xs">🚩</span>
                       </div>
                     )}
+                    {editing && (
+                      <button
+                        onClick={() => updateQuestion(idx, { isFlagged: !q.isFlagged })}
+                        className={`block mx-auto mt-2 text-xs no-print ${q.isFlagged ? '' : 'opacity-25 grayscale hover:opacity-60'}`}
+                        title={q.isFlagged ? 'Remove flag' : 'Flag as contradiction'}
+                      >
+                        🚩
+                      </button>
+                    )}
+                    {q.isEdited && editedBadge}
                   </td>
                   <td className="p-3 border-r border-slate-400 align-top">
-                    <ul className="list-disc list-outside ml-4 space-y-1" style={contentStyle}>
-                      {q.feedbackPoints?.map((point: string, pIdx: number) => (
-                        <li key={pIdx} className={`font-semibold leading-relaxed ${status === 'unattempted' ? 'text-red-700 font-black italic' : 'text-slate-800'}`}>
-                          <span dangerouslySetInnerHTML={{ __html: point.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') }} />
-                        </li>
-                      ))}
-                    </ul>
+                    {editing ? (
+                      <EditableList
+                        items={q.feedbackPoints || []}
+                        idPrefix={`q-${idx}`}
+                        onChange={(items, key) => updateQuestion(idx, { feedbackPoints: items }, key)}
+                      />
+                    ) : (
+                      <ul className="list-disc list-outside ml-4 space-y-1" style={contentStyle}>
+                        {q.feedbackPoints?.map((point: string, pIdx: number) => (
+                          <li key={pIdx} className={`font-semibold leading-relaxed ${status === 'unattempted' ? 'text-red-700 font-black italic' : 'text-slate-800'}`}>
+                            <BoldText text={point} />
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </td>
                   <td className={`p-2 text-center font-bold align-top ${status === 'unattempted' ? 'text-red-600' : status === 'correct' ? 'text-emerald-700' : 'text-slate-800'}`} style={contentStyle}>
-                    {q.marks}
+                    {editing ? (
+                      <div className="no-print">
+                        <input
+                          type="number"
+                          min={0}
+                          max={q.maxMarks || undefined}
+                          step={0.5}
+                          value={q.marks}
+                          onChange={(e) => updateQuestion(idx, { marks: Number(e.target.value) || 0 }, `q-${idx}-marks`)}
+                          className="w-16 px-1 py-1 border border-slate-300 rounded text-center font-bold focus:outline-none focus:border-blue-500"
+                        />
+                        {q.maxMarks > 0 && <span className="block text-[10px] text-slate-400 mt-1">of {q.maxMarks}</span>}
+                      </div>
+                    ) : (
+                      q.marks
+                    )}
                   </td>
                 </tr>
               );
             })}
+            {isStreaming && (
+              <tr className="border-b border-slate-300 no-print">
+                <td colSpan={3} className="p-3 text-center text-[10px] font-black uppercase tracking-widest text-slate-400 animate-pulse" style={{ fontFamily: 'inherit' }}>
+                  Evaluating next question...
+                </td>
+              </tr>
+            )}
             <tr className="bg-slate-50 border-t border-slate-400">
               <td colSpan={2} className="p-3 border-r border-slate-400 text-right font-black uppercase tracking-widest text-slate-500" style={contentStyle}>
                 Total Score Summation
@@ -159,63 +259,51 @@ const FeedbackReport: React.FC<FeedbackReportProps> = ({ report }) => {
       </div>
 
       {/* General Feedback Section */}
-      {report.generalFeedback && (
+      {report.generalFeedback && !isStreaming && (
         <div className="mt-6 border border-slate-900 p-6">
           <h3 className="text-red-600 font-bold mb-2 underline" style={headingStyle}>General Feedback:</h3>
           
           <div className="space-y-4">
-            <div>
-              <h4 style={sectionLabelStyle}>1) Overall Performance</h4>
-              {renderBulletList(report.generalFeedback.overallPerformance)}
-            </div>
-
-            <div>
-              <h4 style={sectionLabelStyle}>2) MCQs</h4>
-              {renderBulletList(report.generalFeedback.mcqs)}
-            </div>
-
-            <div>
-              <h4 style={sectionLabelStyle}>3) Content Accuracy</h4>
-              {renderBulletList(report.generalFeedback.contentAccuracy)}
-            </div>
-
-            <div>
-              <h4 style={sectionLabelStyle}>4) Completeness of Answers</h4>
-              {renderBulletList(report.generalFeedback.completenessOfAnswers)}
-            </div>
-
-            <div>
-              <h4 style={sectionLabelStyle}>5) Presentation & Diagrams (Major drawback)</h4>
-              {renderBulletList(report.generalFeedback.presentationDiagrams)}
-            </div>
-
-            <div>
-              <h4 style={sectionLabelStyle}>6) Investigations (Must improve)</h4>
-              {renderBulletList(report.generalFeedback.investigations)}
-            </div>
-
-            <div>
-              <h4 style={sectionLabelStyle}>7) Attempting All Questions</h4>
-              {renderBulletList(report.generalFeedback.attemptingQuestions)}
-            </div>
-
-            <div>
-              <h4 style={sectionLabelStyle}>8) What to do next (Action points)</h4>
-              {renderBulletList(report.generalFeedback.actionPoints)}
-            </div>
+            {GENERAL_FEEDBACK_SECTIONS.map(({ key, label }) => (
+              <div key={key}>
+                <h4 style={sectionLabelStyle}>
+                  {label}
+                  {report.editedSections?.includes(key) && (
+                    <span className="ml-2 text-[10px] font-black uppercase tracking-wider text-blue-700">(Edited by faculty)</span>
+                  )}
+                </h4>
+                {editing ? (
+                  <div className="ml-10">
+                    <EditableList
+                      items={report.generalFeedback[key] || []}
+                      idPrefix={`gf-${key}`}
+                      onChange={(items, coalesceKey) => updateSection(key, items, coalesceKey)}
+                    />
+                  </div>
+                ) : (
+                  renderBulletList(report.generalFeedback[key])
+                )}
+              </div>
+            ))}
           </div>
         </div>
       )}
 
       {/* Official Footer */}
-      <div className="mt-12 flex justify-between items-center text-[9px] font-black text-slate-400 uppercase tracking-[0.3em] border-t-2 border-slate-900 pt-8">
-        <div className="flex items-center gap-6">
-          <span>Digital Transcript</span>
-          <span className="text-red-300">|</span>
-          <span>ANATOMY GURU AUTHENTICATED</span>
+      {!isStreaming && (
+        <div className="mt-12 flex justify-between items-center text-[9px] font-black text-slate-400 uppercase tracking-[0.3em] border-t-2 border-slate-900 pt-8">
+          <div className="flex items-center gap-6">
+            <span>Digital Transcript</span>
+            {reportAttribution(report).map(line => (
+              <React.Fragment key={line}>
+                <span className="text-red-300">|</span>
+                <span>{line}</span>
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="text-slate-900 font-bold">VERIFIED © 2025</div>
         </div>
-        <div className="text-slate-900 font-bold">VERIFIED © 2025</div>
-      </div>
+      )}
     </div>
   );
 };
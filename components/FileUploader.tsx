@@ -1,40 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { PageImage } from '../types';
+import { pageToFile } from '../services/pageImages';
+import CameraCapture from './CameraCapture';
 
-import React from 'react';
+const ACCEPT = 'application/pdf,image/*,.docx';
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+// Mirrors the `accept` list, which drag-and-drop bypasses.
+const isAccepted = (file: File) =>
+  file.type === 'application/pdf' ||
+  file.type.startsWith('image/') ||
+  file.name.toLowerCase().endsWith('.docx');
+
+const rejectionFor = (file: File): string | null => {
+  if (!isAccepted(file)) return `${file.name}: only PDF, image or DOCX files are supported.`;
+  if (file.size === 0) return `${file.name}: file is empty.`;
+  if (file.size > MAX_FILE_BYTES) return `${file.name}: exceeds ${MAX_FILE_BYTES / 1048576} MB.`;
+  return null;
+};
+
+const kindLabel = (file: File) => {
+  if (file.type === 'application/pdf') return 'PDF';
+  if (file.name.toLowerCase().endsWith('.docx')) return 'DOCX';
+  return 'IMG';
+};
 
 interface FileUploaderProps {
   label: string;
   description: string;
-  onFileSelect: (file: File) => void;
-  selectedFile: File | null;
+  // Files are combined, in list order, into one document for this slot.
+  onFilesSelect: (files: File[]) => void;
+  selectedFiles: File[];
   icon: React.ReactNode;
+  // Adds a camera button so staff can photograph the pages instead.
+  allowCamera?: boolean;
 }
 
-const FileUploader: React.FC<FileUploaderProps> = ({ label, description, onFileSelect, selectedFile, icon }) => {
+const FileThumb: React.FC<{ file: File }> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file.type.startsWith('image/')) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url
+    ? <img src={url} alt={file.name} className="w-10 h-12 object-cover rounded border border-slate-200 bg-white" />
+    : <div className="w-10 h-12 flex items-center justify-center rounded border border-slate-200 bg-slate-50 text-[9px] font-black text-slate-500">{kindLabel(file)}</div>;
+};
+
+const FileUploader: React.FC<FileUploaderProps> = ({ label, description, onFilesSelect, selectedFiles, icon, allowCamera }) => {
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [rejections, setRejections] = useState<string[]>([]);
+
+  const addFiles = (incoming: File[]) => {
+    const problems = incoming.map(rejectionFor).filter((msg): msg is string => msg !== null);
+    setRejections(problems);
+    const accepted = incoming.filter(file => rejectionFor(file) === null);
+    if (accepted.length > 0) onFilesSelect([...selectedFiles, ...accepted]);
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onFileSelect(e.target.files[0]);
-    }
+    if (e.target.files) addFiles(Array.from(e.target.files));
+    // Lets the same file be picked again after it has been removed.
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const move = (idx: number, delta: number) => {
+    const target = idx + delta;
+    if (target < 0 || target >= selectedFiles.length) return;
+    const next = [...selectedFiles];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onFilesSelect(next);
+  };
+
+  const remove = (idx: number) => {
+    onFilesSelect(selectedFiles.filter((_, i) => i !== idx));
+  };
+
+  const handleCapture = (pages: PageImage[]) => {
+    const stamp = new Date().toISOString().slice(0, 16).replace(/[:T]/g, '-');
+    const slug = label.toLowerCase().replace(/\s+/g, '_');
+    addFiles(pages.map((page, i) => pageToFile(page, `${slug}_camera_${stamp}_${i + 1}.jpg`)));
   };
 
   return (
-    <div className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-slate-300 rounded-xl bg-white hover:border-blue-500 transition-colors cursor-pointer group relative">
-      <input
-        type="file"
-        onChange={handleChange}
-        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-        accept="application/pdf,image/*,.docx"
-      />
-      <div className="text-blue-500 mb-4 group-hover:scale-110 transition-transform">
-        {icon}
-      </div>
-      <h3 className="text-lg font-semibold text-slate-800">{label}</h3>
-      <p className="text-sm text-slate-500 text-center mt-1">{description}</p>
-      {selectedFile && (
-        <div className="mt-4 px-4 py-2 bg-blue-50 text-blue-700 rounded-full text-xs font-medium border border-blue-100">
-          Selected: {selectedFile.name}
+    <>
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center p-6 border-2 border-dashed rounded-xl transition-colors cursor-pointer group relative ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-slate-300 bg-white hover:border-blue-500'}`}
+      >
+        <input
+          type="file"
+          multiple
+          onChange={handleChange}
+          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+          accept={ACCEPT}
+        />
+        <div className="text-blue-500 mb-4 group-hover:scale-110 transition-transform">
+          {icon}
         </div>
+        <h3 className="text-lg font-semibold text-slate-800">{label}</h3>
+        <p className="text-sm text-slate-500 text-center mt-1">{description}</p>
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-2">{isDragging ? 'Drop to add' : 'Drag files here or click to browse'}</p>
+        {allowCamera && (
+          <button
+            onClick={() => setIsCapturing(true)}
+            className="relative z-10 mt-3 text-[10px] font-black uppercase tracking-wider bg-white text-slate-900 border border-slate-200 px-3 py-1.5 rounded-lg hover:bg-slate-50"
+          >
+            Use Camera
+          </button>
+        )}
+      </div>
+      {rejections.length > 0 && (
+        <ul className="mt-2 space-y-0.5">
+          {rejections.map(msg => <li key={msg} className="text-xs font-bold text-rose-600">{msg}</li>)}
+        </ul>
+      )}
+      {selectedFiles.length > 0 && (
+        <ul className="mt-3 bg-white border border-slate-200 rounded-xl divide-y divide-slate-100 shadow-sm">
+          {selectedFiles.map((file, idx) => (
+            <li key={`${file.name}-${file.lastModified}-${idx}`} className="flex items-center gap-3 px-3 py-2">
+              <FileThumb file={file} />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-bold text-slate-800 truncate">{file.name}</p>
+                <p className="text-[10px] font-semibold text-slate-400">{(file.size / 1048576).toFixed(1)} MB</p>
+              </div>
+              <div className="flex items-center text-[10px] font-black text-slate-600 shrink-0">
+                <button onClick={() => move(idx, -1)} disabled={idx === 0} className="px-1 disabled:opacity-25" title="Move earlier">←</button>
+                <button onClick={() => move(idx, 1)} disabled={idx === selectedFiles.length - 1} className="px-1 disabled:opacity-25" title="Move later">→</button>
+                <button onClick={() => remove(idx)} className="px-1 text-rose-600" title="Remove file">✕</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {isCapturing && allowCamera && (
+        <CameraCapture
+          label={label}
+          onClose={() => setIsCapturing(false)}
+          onDone={(pages) => {
+            setIsCapturing(false);
+            handleCapture(pages);
+          }}
+        />
       )}
-    </div>
+    </>
   );
 };
 
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { AuditRecord } from '../types';
+import { matchesAuditQuery } from '../services/historyStore';
+import { exportMarksCsv, exportMarksXlsx } from '../services/marksSheet';
+import { unresolvedIssues } from '../services/scoringIntegrity';
+
+interface HistoryViewProps {
+  records: AuditRecord[];
+  onOpen: (record: AuditRecord) => void;
+  onDuplicate: (record: AuditRecord) => void;
+  onDelete: (record: AuditRecord) => void;
+  onClose: () => void;
+}
+
+const HistoryView: React.FC<HistoryViewProps> = ({ records, onOpen, onDuplicate, onDelete, onClose }) => {
+  const [query, setQuery] = useState('');
+  const visible = records.filter(r => matchesAuditQuery(r, query));
+
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Exports whatever the search currently shows, e.g. one test's class list. Reports with
+  // unresolved scoring issues are left out, as in the single-report export.
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    const blocked = visible.filter(r => unresolvedIssues(r.report).length > 0);
+    const reports = visible.filter(r => !blocked.includes(r)).map(r => r.report);
+    const blockedNote = blocked.length > 0
+      ? `Resolve the scoring integrity issues first: ${blocked.map(r => r.report.studentName || 'Unknown Student').join(', ')}.`
+      : null;
+    if (reports.length === 0) {
+      setExportError(blockedNote ? `Nothing exported. ${blockedNote}` : null);
+      return;
+    }
+    try {
+      if (format === 'csv') exportMarksCsv(reports);
+      else await exportMarksXlsx(reports);
+      setExportError(blockedNote && `${blocked.length} report${blocked.length === 1 ? '' : 's'} left out. ${blockedNote}`);
+    } catch (err: any) {
+      console.error("Marks export failure:", err);
+      setExportError(err.message || "Failed to export marks.");
+    }
+  };
+
+  const handleDelete = (record: AuditRecord) => {
+    if (window.confirm(`Delete the audit for ${record.report.studentName || 'this student'}? This cannot be undone.`)) {
+      onDelete(record);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto py-12 px-6 animate-fade-in w-full">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-black tracking-tight text-slate-900">Audit <span className="text-red-600">History</span></h1>
+        <div className="flex gap-2">
+          <button onClick={() => handleExport('csv')} disabled={visible.length === 0} className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 uppercase tracking-wider disabled:opacity-40">
+            Marks CSV
+          </button>
+          <button onClick={() => handleExport('xlsx')} disabled={visible.length === 0} className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 uppercase tracking-wider disabled:opacity-40">
+            Marks XLSX
+          </button>
+          <button onClick={onClose} className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 uppercase tracking-wider">
+            Back
+          </button>
+        </div>
+      </div>
+
+      {exportError && <p className="mb-4 text-xs font-bold text-rose-600">{exportError}</p>}
+
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search by student name, test title or date..."
+        className="w-full px-4 py-3 mb-6 rounded-xl border border-slate-200 text-sm font-medium text-slate-800 bg-white shadow-sm focus:outline-none focus:border-red-400"
+      />
+
+      {visible.length === 0 ? (
+        <div className="p-16 text-center text-slate-400 font-bold uppercase tracking-widest text-xs bg-white border border-slate-200 rounded-2xl">
+          {records.length === 0 ? 'No saved audits yet.' : 'No audits match your search.'}
+        </div>
+      ) : (
+        <ul className="bg-white border border-slate-200 rounded-2xl shadow-sm divide-y divide-slate-100 overflow-hidden">
+          {visible.map(record => (
+            <li key={record.id} className="flex flex-col md:flex-row md:items-center gap-3 px-5 py-4">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-black text-slate-900 truncate">
+                  {record.report.studentName || 'Unknown Student'}
+                  {record.duplicateOf && <span className="ml-2 px-2 py-0.5 bg-slate-100 text-slate-500 rounded text-[10px] font-black uppercase tracking-wider align-middle">Copy</span>}
+                </p>
+                <p className="text-xs font-semibold text-slate-500 truncate">
+                  {record.report.testTitle || 'Untitled test'} • {record.report.testDate || 'No test date'}
+                </p>
+                <p className="text-[11px] text-slate-400 truncate">
+                  {record.mode === 'with-manual' ? 'With faculty notes' : 'AI only'} • {record.sourceFiles.studentScript}
+                  {record.sourceFiles.facultyNotes ? ` + ${record.sourceFiles.facultyNotes}` : ''} • {new Date(record.createdAt).toLocaleString()}
+                  {record.report.promptVersion ? ` • Prompt ${record.report.promptVersion}` : ''}
+                  {record.report.model ? ` • ${record.report.model}` : ''}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => onOpen(record)} className="text-[10px] font-black uppercase tracking-wider bg-slate-900 text-white px-3 py-1.5 rounded-lg hover:bg-slate-800">
+                  Open
+                </button>
+                <button onClick={() => onDuplicate(record)} className="text-[10px] font-black uppercase tracking-wider bg-white border border-slate-200 px-3 py-1.5 rounded-lg hover:bg-slate-50">
+                  Duplicate
+                </button>
+                <button onClick={() => handleDelete(record)} className="text-[10px] font-black uppercase tracking-wider text-rose-600 border border-rose-100 px-3 py-1.5 rounded-lg hover:bg-rose-50">
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { EvaluationReport } from '../types';
+import { IntegrityIssue, acknowledgeIssue, applyIntegrityFix, checkScoringIntegrity } from '../services/scoringIntegrity';
+
+interface IntegrityPanelProps {
+  report: EvaluationReport;
+  onChange: (report: EvaluationReport) => void;
+}
+
+const IntegrityPanel: React.FC<IntegrityPanelProps> = ({ report, onChange }) => {
+  const issues = checkScoringIntegrity(report);
+  if (issues.length === 0) return null;
+
+  const acknowledged = report.acknowledgedIssues || [];
+  const openCount = issues.filter(i => !acknowledged.includes(i.id)).length;
+
+  const toggleAcknowledge = (issue: IntegrityIssue) => {
+    if (acknowledged.includes(issue.id)) {
+      onChange({ ...report, acknowledgedIssues: acknowledged.filter(id => id !== issue.id) });
+    } else {
+      onChange(acknowledgeIssue(report, issue));
+    }
+  };
+
+  return (
+    <div className={`max-w-[850px] mx-auto mb-6 rounded-2xl border p-5 no-print animate-fade-in ${openCount > 0 ? 'bg-amber-50 border-amber-200' : 'bg-emerald-50 border-emerald-200'}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-700">Scoring Integrity Check</h3>
+        <span className={`text-[10px] font-black uppercase tracking-widest ${openCount > 0 ? 'text-amber-700' : 'text-emerald-700'}`}>
+          {openCount > 0 ? `${openCount} unresolved • export blocked` : 'All issues acknowledged'}
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {issues.map(issue => {
+          const isAcknowledged = acknowledged.includes(issue.id);
+          return (
+            <li key={issue.id} className={`flex flex-col sm:flex-row sm:items-center gap-2 bg-white rounded-xl border border-slate-200 px-4 py-3 ${isAcknowledged ? 'opacity-60' : ''}`}>
+              <span className="flex-1 text-sm font-semibold text-slate-800">{issue.message}</span>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => onChange(applyIntegrityFix(report, issue))}
+                  className="text-[10px] font-black uppercase tracking-wider bg-slate-900 text-white px-3 py-1.5 rounded-lg hover:bg-slate-800"
+                >
+                  {issue.fixLabel}
+                </button>
+                <button
+                  onClick={() => toggleAcknowledge(issue)}
+                  className="text-[10px] font-black uppercase tracking-wider bg-white border border-slate-200 px-3 py-1.5 rounded-lg hover:bg-slate-50"
+                >
+                  {isAcknowledged ? 'Reopen' : 'Acknowledge'}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default IntegrityPanel;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { AuthSession } from '../types';
+import { login } from '../services/authService';
+
+interface LoginScreenProps {
+  onLogin: (session: AuthSession) => void;
+  notice?: string | null;
+}
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border border-slate-200 text-sm font-medium text-slate-800 bg-white focus:outline-none focus:border-red-400';
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, notice }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      setFormError("Enter your username and password.");
+      return;
+    }
+    setIsSubmitting(true);
+    setFormError(null);
+    try {
+      onLogin(await login(username.trim(), password));
+    } catch (err: any) {
+      console.error("Login failure:", err);
+      setFormError(err.message || "Sign in failed. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto py-20 px-6 animate-fade-in w-full">
+      <div className="text-center mb-8">
+        <span className="px-3 py-1 bg-red-50 text-red-600 text-[10px] font-black rounded-full uppercase tracking-widest border border-red-100 mb-4 inline-block">Staff Only</span>
+        <h1 className="text-3xl font-black tracking-tight text-slate-900">Sign in to <span className="text-red-600">Audit</span></h1>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white border border-slate-200 rounded-2xl shadow-sm p-6 space-y-4">
+        {(formError || notice) && (
+          <div className="bg-rose-50 text-rose-700 p-3 rounded-xl font-bold text-sm border border-rose-100">
+            {formError || notice}
+          </div>
+        )}
+        <label className="block">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Username</span>
+          <input value={username} onChange={(e) => setUsername(e.target.value)} autoComplete="username" className={`${inputClass} mt-1`} />
+        </label>
+        <label className="block">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Password</span>
+          <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoComplete="current-password" className={`${inputClass} mt-1`} />
+        </label>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full py-3 rounded-xl font-black text-sm uppercase tracking-widest bg-slate-900 text-white hover:bg-slate-800 transition-all active:scale-[0.98] disabled:opacity-40"
+        >
+          {isSubmitting ? 'Signing in...' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
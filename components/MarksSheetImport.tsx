@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { FacultyMarksSheet, parseFacultyMarksCsv, StudentMarks, studentLabel } from '../services/marksSheet';
+
+interface MarksSheetImportProps {
+  sheet: FacultyMarksSheet | null;
+  onSheetChange: (sheet: FacultyMarksSheet | null) => void;
+  // Index into `sheet.students`; omitted in class mode, where rows are matched by file name.
+  selectedIndex?: number;
+  onSelect?: (index: number) => void;
+}
+
+const MarksSheetImport: React.FC<MarksSheetImportProps> = ({ sheet, onSheetChange, selectedIndex, onSelect }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onSheetChange(parseFacultyMarksCsv(await file.text(), file.name));
+      setError(null);
+    } catch (err: any) {
+      console.error("Failed to import marks sheet:", err);
+      setError(err.message || "Failed to read the marks sheet.");
+    }
+  };
+
+  const selected = sheet && selectedIndex !== undefined ? sheet.students[selectedIndex] : null;
+
+  return (
+    <div className="p-6 border-2 border-dashed border-slate-300 rounded-xl bg-white">
+      <h3 className="text-lg font-semibold text-slate-800 text-center">Faculty Marks Sheet</h3>
+      <p className="text-sm text-slate-500 text-center mt-1">CSV with a row per student and a column per question, or Student / qNo / Marks rows</p>
+      <div className="flex justify-center gap-2 mt-4">
+        <label className="text-[10px] font-black uppercase tracking-wider bg-slate-900 text-white px-3 py-2 rounded-lg hover:bg-slate-800 cursor-pointer">
+          {sheet ? 'Replace CSV' : 'Import CSV'}
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+        </label>
+        {sheet && (
+          <button onClick={() => onSheetChange(null)} className="text-[10px] font-black uppercase tracking-wider bg-white border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50">
+            Remove
+          </button>
+        )}
+      </div>
+      {error && <p className="mt-3 text-center text-xs font-bold text-rose-600">{error}</p>}
+      {sheet && (
+        <div className="mt-4 space-y-3">
+          <p className="text-center text-[10px] font-black uppercase tracking-widest text-slate-500">
+            {sheet.fileName} • {sheet.students.length} student{sheet.students.length === 1 ? '' : 's'}
+          </p>
+          {onSelect && (
+            <select
+              value={selectedIndex ?? ''}
+              onChange={(e) => onSelect(Number(e.target.value))}
+              className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm font-semibold text-slate-800 bg-white focus:outline-none focus:border-red-400"
+            >
+              {sheet.students.map((s, i) => <option key={i} value={i}>{studentLabel(s)}</option>)}
+            </select>
+          )}
+          {selected && (
+            <div className="flex flex-wrap gap-1.5">
+              {Object.values<StudentMarks['marks'][string]>(selected.marks).map(m => (
+                <span key={m.qNo} className="px-2 py-1 bg-blue-50 text-blue-700 rounded-lg text-xs font-bold border border-blue-100">
+                  Q{m.qNo}: {m.marks}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarksSheetImport;
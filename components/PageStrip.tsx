@@ -0,0 +1,56 @@
+import React from 'react';
+import { PageImage } from '../types';
+import { pagesByteSize } from '../services/pageImages';
+
+interface PageStripProps {
+  pages: PageImage[];
+  droppedBlankPages?: number;
+  onChange: (pages: PageImage[]) => void;
+}
+
+const PageStrip: React.FC<PageStripProps> = ({ pages, droppedBlankPages = 0, onChange }) => {
+  const move = (idx: number, delta: number) => {
+    const target = idx + delta;
+    if (target < 0 || target >= pages.length) return;
+    const next = [...pages];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onChange(next);
+  };
+
+  const remove = (idx: number) => {
+    if (pages.length <= 1) return;
+    onChange(pages.filter((_, i) => i !== idx));
+  };
+
+  return (
+    <div className="mt-3 bg-white border border-slate-200 rounded-xl p-3 shadow-sm">
+      <div className="flex items-center justify-between mb-2 text-[10px] font-black uppercase tracking-widest text-slate-500">
+        <span>{pages.length} page{pages.length === 1 ? '' : 's'} • {(pagesByteSize(pages) / 1048576).toFixed(1)} MB</span>
+        {droppedBlankPages > 0 && <span className="text-slate-400">{droppedBlankPages} blank dropped</span>}
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {pages.map((page, idx) => (
+          <div key={page.id} className="shrink-0 w-20 border border-slate-200 rounded-lg overflow-hidden bg-slate-50">
+            {page.mimeType.startsWith('image/') ? (
+              <img
+                src={`data:${page.mimeType};base64,${page.base64}`}
+                alt={`Page ${idx + 1}`}
+                className="w-20 h-28 object-cover object-top bg-white"
+              />
+            ) : (
+              <div className="w-20 h-28 flex items-center justify-center bg-white text-[10px] font-black text-slate-400 px-1 text-center break-all">{page.sourceName || 'Document'}</div>
+            )}
+            <div className="flex items-center justify-between px-1 py-0.5 text-[10px] font-black text-slate-600">
+              <button onClick={() => move(idx, -1)} disabled={idx === 0} className="px-1 disabled:opacity-25" title="Move earlier">←</button>
+              <span title={page.sourceName ? `${page.sourceName}, page ${page.sourcePage}` : `Source page ${page.sourcePage}`}>{idx + 1}</span>
+              <button onClick={() => move(idx, 1)} disabled={idx === pages.length - 1} className="px-1 disabled:opacity-25" title="Move later">→</button>
+              <button onClick={() => remove(idx)} disabled={pages.length <= 1} className="px-1 text-rose-600 disabled:opacity-25" title="Remove page">✕</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PageStrip;
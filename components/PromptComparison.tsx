@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { EvaluationReport, PromptComparisonResult, PromptVersionInfo } from '../types';
+import { fetchPromptVersions } from '../services/geminiService';
+import { sumMarks } from '../services/scoringIntegrity';
+import { normalizeQNo } from '../services/templateService';
+
+interface PromptComparisonProps {
+  disabled: boolean;
+  // Runs the current uploads through each version, in order.
+  onCompare: (versions: string[]) => Promise<PromptComparisonResult[]>;
+  onOpen: (report: EvaluationReport) => void;
+}
+
+const PromptComparison: React.FC<PromptComparisonProps> = ({ disabled, onCompare, onOpen }) => {
+  const [versions, setVersions] = useState<PromptVersionInfo[]>([]);
+  const [selected, setSelected] = useState<[string, string]>(['', '']);
+  const [results, setResults] = useState<PromptComparisonResult[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPromptVersions()
+      .then(list => {
+        setVersions(list);
+        const current = list.find(v => v.isDefault)?.version || list[0]?.version || '';
+        const other = list.find(v => v.version !== current)?.version || current;
+        setSelected([current, other]);
+      })
+      .catch(err => {
+        console.error("Failed to load prompt versions:", err);
+        setError(err.message || "Failed to load prompt versions.");
+      });
+  }, []);
+
+  const run = async () => {
+    setIsRunning(true);
+    setError(null);
+    setResults(null);
+    try {
+      setResults(await onCompare(selected));
+    } catch (err: any) {
+      console.error("Prompt comparison failed:", err);
+      setError(err.message || "Prompt comparison failed.");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const reports = (results || []).flatMap(r => (r.report ? [r.report] : []));
+  const qNos: string[] = Array.from(
+    new Map<string, string>(reports.flatMap(r => r.questions).map(q => [normalizeQNo(q.qNo), q.qNo])).values()
+  );
+  const marksFor = (report: EvaluationReport | null, qNo: string) => {
+    const q = report?.questions.find(item => normalizeQNo(item.qNo) === normalizeQNo(qNo));
+    return q ? `${q.marks} / ${q.maxMarks}` : '—';
+  };
+
+  return (
+    <div className="mt-6 bg-white border border-slate-200 rounded-2xl px-5 py-4 shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 shrink-0">Prompt A/B</span>
+        {[0, 1].map(idx => (
+          <select
+            key={idx}
+            value={selected[idx]}
+            onChange={(e) => setSelected(prev => (idx === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value]))}
+            className="flex-1 px-3 py-2 rounded-xl border border-slate-200 text-sm font-semibold text-slate-800 bg-white focus:outline-none focus:border-red-400"
+          >
+            {versions.map(v => (
+              <option key={v.version} value={v.version}>
+                {idx === 0 ? 'A' : 'B'}: {v.version}{v.isDefault ? ' (live)' : ''} — {v.description}
+              </option>
+            ))}
+          </select>
+        ))}
+        <button
+          onClick={run}
+          disabled={disabled || isRunning || versions.length === 0 || selected[0] === selected[1]}
+          className="text-[10px] font-black uppercase tracking-wider bg-slate-900 text-white px-3 py-2 rounded-lg hover:bg-slate-800 disabled:opacity-40 shrink-0"
+        >
+          {isRunning ? 'Comparing...' : 'Compare'}
+        </button>
+      </div>
+      {error && <p className="mt-3 text-xs font-bold text-rose-600">{error}</p>}
+      {results && (
+        <table className="mt-4 w-full text-sm">
+          <thead>
+            <tr className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+              <th className="text-left py-1">Q No</th>
+              {results.map((r, i) => <th key={i} className="text-center py-1">{r.report?.promptVersion || r.version}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {results.some(r => r.error) && (
+              <tr>
+                <td className="py-1 text-[10px] font-black uppercase tracking-widest text-rose-600">Failed</td>
+                {results.map((r, i) => <td key={i} className="py-1 text-center text-xs font-bold text-rose-600">{r.error || ''}</td>)}
+              </tr>
+            )}
+            {qNos.map(qNo => {
+              const cells = results.map(r => marksFor(r.report, qNo));
+              // Only finished versions are compared; a failed one has nothing to differ on.
+              const differs = new Set(cells.filter((_, i) => results[i].report)).size > 1;
+              return (
+                <tr key={qNo} className={differs ? 'bg-amber-50' : ''}>
+                  <td className="py-1 font-bold text-slate-800">{qNo}</td>
+                  {cells.map((cell, i) => <td key={i} className="py-1 text-center font-semibold text-slate-700">{cell}</td>)}
+                </tr>
+              );
+            })}
+            <tr className="font-black text-slate-900">
+              <td className="py-2">Total</td>
+              {results.map((r, i) => <td key={i} className="py-2 text-center">{r.report ? `${sumMarks(r.report)} / ${r.report.maxScore}` : '—'}</td>)}
+            </tr>
+            <tr>
+              <td />
+              {results.map((r, i) => (
+                <td key={i} className="py-2 text-center">
+                  {r.report && (
+                    <button onClick={() => onOpen(r.report!)} className="text-[10px] font-black uppercase tracking-wider bg-white border border-slate-200 px-3 py-1.5 rounded-lg hover:bg-slate-50">
+                      Open
+                    </button>
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default PromptComparison;
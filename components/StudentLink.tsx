@@ -0,0 +1,43 @@
+import React from 'react';
+import { EvaluationReport, Student } from '../types';
+import { findStudentsByName } from '../services/studentRegistry';
+
+interface StudentLinkProps {
+  report: EvaluationReport;
+  students: Student[];
+  onChange: (studentId: string | null) => void;
+}
+
+// Links the report to a registered student so it appears on their progress timeline.
+const StudentLink: React.FC<StudentLinkProps> = ({ report, students, onChange }) => {
+  const suggested = report.studentId ? [] : findStudentsByName(students, report.studentName);
+  const linked = students.find(s => s.id === report.studentId);
+
+  return (
+    <div className="max-w-[850px] mx-auto mb-6 flex flex-col sm:flex-row sm:items-center gap-3 bg-white border border-slate-200 rounded-2xl px-5 py-3 shadow-sm no-print">
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 shrink-0">Registered Student</span>
+      <select
+        value={report.studentId || ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="flex-1 px-3 py-2 rounded-xl border border-slate-200 text-sm font-semibold text-slate-800 bg-white focus:outline-none focus:border-red-400"
+      >
+        <option value="">Not linked</option>
+        {/* A link to a since-deleted student is kept visible rather than silently dropped. */}
+        {report.studentId && !linked && <option value={report.studentId}>{report.studentId} (not in registry)</option>}
+        {students.map(s => (
+          <option key={s.id} value={s.id}>{s.name} • {s.id}{s.batch ? ` • ${s.batch}` : ''}</option>
+        ))}
+      </select>
+      {suggested.length > 0 && (
+        <button
+          onClick={() => onChange(suggested[0].id)}
+          className="text-[10px] font-black uppercase tracking-wider bg-slate-900 text-white px-3 py-2 rounded-lg hover:bg-slate-800 shrink-0"
+        >
+          Link {suggested[0].id}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default StudentLink;
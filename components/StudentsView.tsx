@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { AuditRecord, Student } from '../types';
+import { ActionPointStatus, buildStudentProgress } from '../services/studentProgress';
+import { GENERAL_FEEDBACK_SECTIONS, parseBoldSegments } from '../services/reportFormat';
+
+interface StudentsViewProps {
+  students: Student[];
+  records: AuditRecord[];
+  onAdd: (student: Omit<Student, 'createdAt'>) => void;
+  onDelete: (id: string) => void;
+  onOpen: (record: AuditRecord) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-slate-200 text-sm font-medium text-slate-800 focus:outline-none focus:border-red-400';
+const card = 'bg-white border border-slate-200 rounded-2xl shadow-sm p-5 mb-6';
+const heading = 'text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3';
+
+const sectionLabel = (key: string) => GENERAL_FEEDBACK_SECTIONS.find(s => s.key === key)?.label.replace(/^\d+\)\s*/, '') || key;
+
+const STATUS_STYLES: Record<ActionPointStatus, { label: string; className: string }> = {
+  addressed: { label: 'Addressed', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  recurring: { label: 'Still an issue', className: 'bg-rose-50 text-rose-700 border-rose-200' },
+  pending: { label: 'Awaiting next test', className: 'bg-slate-50 text-slate-500 border-slate-200' },
+};
+
+const StudentsView: React.FC<StudentsViewProps> = ({ students, records, onAdd, onDelete, onOpen, onClose }) => {
+  const [draft, setDraft] = useState({ id: '', name: '', batch: '' });
+  const [formError, setFormError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = students.find(s => s.id === selectedId) || null;
+  const progress = useMemo(() => (selected ? buildStudentProgress(records, selected.id) : null), [records, selected]);
+
+  const handleAdd = () => {
+    try {
+      onAdd(draft);
+      setDraft({ id: '', name: '', batch: draft.batch });
+      setFormError(null);
+    } catch (err: any) {
+      setFormError(err.message || "Failed to add student.");
+    }
+  };
+
+  const handleDelete = (student: Student) => {
+    if (window.confirm(`Remove ${student.name} from the registry? Their reports are kept but unlinked from the timeline.`)) {
+      onDelete(student.id);
+      if (selectedId === student.id) setSelectedId(null);
+    }
+  };
+
+  const linkedCount = (id: string) => records.filter(r => r.report.studentId === id).length;
+  const plain = (text: string) => parseBoldSegments(text).map(seg => seg.text).join('');
+
+  return (
+    <div className="max-w-5xl mx-auto py-12 px-6 animate-fade-in w-full">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-black tracking-tight text-slate-900">Student <span className="text-red-600">Progress</span></h1>
+        <button onClick={onClose} className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 uppercase tracking-wider">
+          Back
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-[280px_1fr] gap-6">
+        <div>
+          <div className={card}>
+            <h3 className={heading}>Register student</h3>
+            <div className="space-y-2">
+              <input value={draft.id} onChange={(e) => setDraft({ ...draft, id: e.target.value })} placeholder="Student ID / roll no." className={inputClass} />
+              <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Name" className={inputClass} />
+              <input value={draft.batch} onChange={(e) => setDraft({ ...draft, batch: e.target.value })} placeholder="Batch" className={inputClass} />
+              {formError && <p className="text-xs font-bold text-rose-600">{formError}</p>}
+              <button onClick={handleAdd} className="w-full text-[10px] font-black uppercase tracking-wider bg-slate-900 text-white px-3 py-2 rounded-lg hover:bg-slate-800">
+                Add Student
+              </button>
+            </div>
+          </div>
+
+          {students.length === 0 ? (
+            <p className="text-center text-slate-400 font-bold uppercase tracking-widest text-xs">No students registered.</p>
+          ) : (
+            <ul className="bg-white border border-slate-200 rounded-2xl shadow-sm divide-y divide-slate-100 overflow-hidden">
+              {students.map(student => (
+                <li key={student.id} className={`flex items-center gap-2 px-4 py-3 cursor-pointer ${selectedId === student.id ? 'bg-red-50' : 'hover:bg-slate-50'}`} onClick={() => setSelectedId(student.id)}>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-black text-slate-900 truncate">{student.name}</p>
+                    <p className="text-[11px] text-slate-400 truncate">{student.id}{student.batch ? ` • ${student.batch}` : ''} • {linkedCount(student.id)} report{linkedCount(student.id) === 1 ? '' : 's'}</p>
+                  </div>
+                  <button onClick={(e) => { e.stopPropagation(); handleDelete(student); }} className="text-[10px] font-black text-rose-600 px-1" title="Remove student">✕</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          {!selected || !progress ? (
+            <div className="p-16 text-center text-slate-400 font-bold uppercase tracking-widest text-xs bg-white border border-slate-200 rounded-2xl">
+              Select a student to see their timeline.
+            </div>
+          ) : progress.timeline.length === 0 ? (
+            <div className="p-16 text-center text-slate-400 font-bold uppercase tracking-widest text-xs bg-white border border-slate-200 rounded-2xl">
+              No reports are linked to {selected.name} yet. Link them from the report view.
+            </div>
+          ) : (
+            <>
+              <div className={card}>
+                <h3 className={heading}>Score by test</h3>
+                <ul className="space-y-2">
+                  {progress.timeline.map((entry, idx) => {
+                    const previous = progress.timeline[idx - 1];
+                    const delta = previous ? Math.round((entry.percentage - previous.percentage) * 10) / 10 : null;
+                    const record = records.find(r => r.id === entry.auditId);
+                    return (
+                      <li key={entry.auditId} className="flex items-center gap-3">
+                        <div className="w-40 min-w-0">
+                          <p className="text-xs font-bold text-slate-800 truncate">{entry.testTitle}</p>
+                          <p className="text-[10px] font-semibold text-slate-400">{entry.testDate || 'No date'}</p>
+                        </div>
+                        <div className="flex-1 h-3 bg-slate-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-blue-500" style={{ width: `${Math.min(entry.percentage, 100)}%` }} />
+                        </div>
+                        <span className="w-14 text-right text-sm font-black text-slate-900">{entry.percentage}%</span>
+                        <span className={`w-14 text-right text-[10px] font-black ${delta === null ? 'text-slate-300' : delta >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                          {delta === null ? '—' : `${delta >= 0 ? '+' : ''}${delta}`}
+                        </span>
+                        {record && (
+                          <button onClick={() => onOpen(record)} className="text-[10px] font-black uppercase tracking-wider bg-white border border-slate-200 px-2 py-1 rounded-lg hover:bg-slate-50">
+                            Open
+                          </button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+
+              <div className={card}>
+                <h3 className={heading}>Recurring weaknesses</h3>
+                {progress.recurringWeaknesses.length === 0 ? (
+                  <p className="text-xs font-semibold text-slate-400">No weakness has appeared in more than one test.</p>
+                ) : (
+                  <ul className="space-y-1.5">
+                    {progress.recurringWeaknesses.map(w => (
+                      <li key={`${w.section}-${w.label}`} className="flex items-center gap-2 text-sm">
+                        <span className="flex-1 font-semibold text-slate-800 first-letter:uppercase">{w.label}</span>
+                        <span className="text-[10px] font-black uppercase tracking-wider text-slate-400">{sectionLabel(w.section)}</span>
+                        <span className="w-16 text-right text-xs font-black text-red-600">{w.tests} tests</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className={card}>
+                <h3 className={heading}>Action point follow-up</h3>
+                {progress.actionPoints.length === 0 ? (
+                  <p className="text-xs font-semibold text-slate-400">No action points recorded.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {progress.actionPoints.map((ap, idx) => (
+                      <li key={idx} className="flex items-start gap-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-semibold text-slate-800">{plain(ap.point)}</p>
+                          <p className="text-[10px] font-semibold text-slate-400">From {ap.testTitle}</p>
+                        </div>
+                        <span className={`shrink-0 text-[10px] font-black uppercase tracking-wider border px-2 py-1 rounded-lg ${STATUS_STYLES[ap.status].className}`}>
+                          {STATUS_STYLES[ap.status].label}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudentsView;
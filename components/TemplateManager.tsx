@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { TemplateQuestion, TestTemplate } from '../types';
+import { createEmptyTemplate, templateMaxScore } from '../services/templateService';
+
+interface TemplateManagerProps {
+  templates: TestTemplate[];
+  onSave: (template: TestTemplate) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-slate-200 text-sm font-medium text-slate-800 focus:outline-none focus:border-red-400';
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<TestTemplate>(() => templates[0] || createEmptyTemplate());
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const updateQuestion = (idx: number, patch: Partial<TemplateQuestion>) => {
+    setDraft(prev => ({
+      ...prev,
+      questions: prev.questions.map((q, i) => (i === idx ? { ...q, ...patch } : q)),
+    }));
+  };
+
+  const moveQuestion = (idx: number, delta: number) => {
+    setDraft(prev => {
+      const target = idx + delta;
+      if (target < 0 || target >= prev.questions.length) return prev;
+      const questions = [...prev.questions];
+      [questions[idx], questions[target]] = [questions[target], questions[idx]];
+      return { ...prev, questions };
+    });
+  };
+
+  const addQuestion = () => {
+    setDraft(prev => ({
+      ...prev,
+      questions: [...prev.questions, { qNo: String(prev.questions.length + 1), maxMarks: 0, keyPoints: [] }],
+    }));
+  };
+
+  const removeQuestion = (idx: number) => {
+    setDraft(prev => ({ ...prev, questions: prev.questions.filter((_, i) => i !== idx) }));
+  };
+
+  const handleSave = () => {
+    if (!draft.title.trim()) {
+      setFormError("Test title is required.");
+      return;
+    }
+    if (draft.questions.length === 0) {
+      setFormError("Add at least one question.");
+      return;
+    }
+    const qNos = draft.questions.map(q => q.qNo.trim().toLowerCase());
+    if (qNos.some(q => !q)) {
+      setFormError("Every question needs a number (e.g. 1, 3a, 3b).");
+      return;
+    }
+    if (new Set(qNos).size !== qNos.length) {
+      setFormError("Question numbers must be unique.");
+      return;
+    }
+    if (draft.questions.some(q => !(Number(q.maxMarks) > 0))) {
+      setFormError("Every question needs max marks greater than zero.");
+      return;
+    }
+    setFormError(null);
+    onSave({
+      ...draft,
+      questions: draft.questions.map(q => ({
+        qNo: q.qNo.trim(),
+        maxMarks: Number(q.maxMarks),
+        keyPoints: q.keyPoints.map(p => p.trim()).filter(Boolean),
+      })),
+    });
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto py-12 px-6 animate-fade-in w-full">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-black tracking-tight text-slate-900">Test <span className="text-red-600">Templates</span></h1>
+        <button onClick={onClose} className="text-[10px] font-black bg-white text-slate-900 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 uppercase tracking-wider">
+          Back
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-[220px_1fr] gap-6">
+        <div className="space-y-2">
+          <button
+            onClick={() => { setDraft(createEmptyTemplate()); setFormError(null); }}
+            className="w-full text-[10px] font-black bg-slate-900 text-white px-3 py-2 rounded-lg hover:bg-slate-800 uppercase tracking-wider"
+          >
+            + New Template
+          </button>
+          {templates.map(t => (
+            <button
+              key={t.id}
+              onClick={() => { setDraft(t); setFormError(null); }}
+              className={`w-full text-left px-3 py-2 rounded-lg border text-sm font-bold truncate ${draft.id === t.id ? 'bg-red-50 border-red-200 text-red-700' : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'}`}
+            >
+              {t.title || 'Untitled'}
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-white border border-slate-200 rounded-2xl p-6 shadow-sm space-y-4">
+          <div className="grid md:grid-cols-3 gap-3">
+            <input className={inputClass} placeholder="Test title" value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} />
+            <input className={inputClass} placeholder="Topics" value={draft.topics} onChange={(e) => setDraft({ ...draft, topics: e.target.value })} />
+            <input className={inputClass} placeholder="Date" value={draft.testDate} onChange={(e) => setDraft({ ...draft, testDate: e.target.value })} />
+          </div>
+
+          <div className="space-y-3">
+            {draft.questions.map((q, idx) => (
+              <div key={idx} className="grid grid-cols-[70px_80px_1fr_auto] gap-2 items-start">
+                <input className={inputClass} placeholder="Q No" value={q.qNo} onChange={(e) => updateQuestion(idx, { qNo: e.target.value })} />
+                <input className={inputClass} type="number" min={0} step={0.5} placeholder="Max" value={q.maxMarks} onChange={(e) => updateQuestion(idx, { maxMarks: Number(e.target.value) })} />
+                <textarea
+                  className={`${inputClass} min-h-[40px]`}
+                  placeholder="Expected key points (one per line)"
+                  value={q.keyPoints.join('\n')}
+                  onChange={(e) => updateQuestion(idx, { keyPoints: e.target.value.split('\n') })}
+                />
+                <div className="flex gap-1 text-slate-400">
+                  <button onClick={() => moveQuestion(idx, -1)} className="px-2 py-2 hover:text-slate-900" title="Move up">↑</button>
+                  <button onClick={() => moveQuestion(idx, 1)} className="px-2 py-2 hover:text-slate-900" title="Move down">↓</button>
+                  <button onClick={() => removeQuestion(idx)} className="px-2 py-2 hover:text-rose-600" title="Remove">✕</button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <button onClick={addQuestion} className="text-[10px] font-black uppercase tracking-wider text-slate-600 hover:text-red-600">
+              + Add Question
+            </button>
+            <span className="text-xs font-black text-slate-500 uppercase tracking-widest">Max Score: {templateMaxScore(draft)}</span>
+          </div>
+
+          {formError && <p className="text-sm font-bold text-rose-600">{formError}</p>}
+
+          <div className="flex justify-end gap-2 pt-2 border-t border-slate-100">
+            {templates.some(t => t.id === draft.id) && (
+              <button
+                onClick={() => { onDelete(draft.id); setDraft(createEmptyTemplate()); }}
+                className="text-[10px] font-black uppercase tracking-wider text-rose-600 border border-rose-100 px-3 py-2 rounded-lg hover:bg-rose-50"
+              >
+                Delete
+              </button>
+            )}
+            <button onClick={handleSave} className="text-[10px] font-black bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 uppercase tracking-wider">
+              Save Template
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManager;
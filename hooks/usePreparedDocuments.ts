@@ -0,0 +1,58 @@
+import { useCallback, useState } from 'react';
+import { FileData, PageImage } from '../types';
+import { processFiles } from '../services/fileProcessing';
+
+export type DocumentSlot = 'questionPaper' | 'answerKey' | 'studentScript' | 'facultyNotes';
+
+export interface PreparedDocument {
+  files: File[];
+  data: FileData | null;
+  isPreparing: boolean;
+  error?: string;
+}
+
+const sameFiles = (a: File[], b: File[]) => a.length === b.length && a.every((file, i) => file === b[i]);
+
+/**
+ * Processes each slot's uploads as soon as they are selected, so scanned pages can
+ * be previewed, removed or reordered before the audit is submitted. Results are
+ * keyed by the file list they came from; a newer selection discards a stale result.
+ */
+export const usePreparedDocuments = () => {
+  const [docs, setDocs] = useState<Partial<Record<DocumentSlot, PreparedDocument>>>({});
+
+  const prepare = useCallback((slot: DocumentSlot, files: File[]) => {
+    if (files.length === 0) {
+      setDocs(prev => ({ ...prev, [slot]: undefined }));
+      return;
+    }
+    const isCurrent = (doc?: PreparedDocument) => !!doc && sameFiles(doc.files, files);
+    setDocs(prev => ({ ...prev, [slot]: { files, data: null, isPreparing: true } }));
+    processFiles(files)
+      .then(data => setDocs(prev => (isCurrent(prev[slot]) ? { ...prev, [slot]: { files, data, isPreparing: false } } : prev)))
+      .catch((err: any) => {
+        console.error(`Failed to prepare ${slot}:`, err);
+        setDocs(prev => (isCurrent(prev[slot])
+          ? { ...prev, [slot]: { files, data: null, isPreparing: false, error: err.message || "Failed to read file." } }
+          : prev));
+      });
+  }, []);
+
+  const updatePages = useCallback((slot: DocumentSlot, pages: PageImage[]) => {
+    setDocs(prev => {
+      const current = prev[slot];
+      if (!current?.data) return prev;
+      return { ...prev, [slot]: { ...current, data: { ...current.data, pages } } };
+    });
+  }, []);
+
+  // Uses the prepared (and possibly page-edited) data when it belongs to these files.
+  const resolve = async (slot: DocumentSlot, files: File[], onStep?: (step: string) => void): Promise<FileData | null> => {
+    if (files.length === 0) return null;
+    const prepared = docs[slot];
+    if (prepared?.data && sameFiles(prepared.files, files)) return prepared.data;
+    return processFiles(files, onStep);
+  };
+
+  return { docs, prepare, updatePages, resolve };
+};
@@ -0,0 +1,57 @@
+import { useCallback, useState } from 'react';
+
+// Enough to walk back a full editing session without holding every keystroke.
+const MAX_HISTORY = 100;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey?: string;
+}
+
+/**
+ * State with undo/redo. Consecutive `set` calls sharing a `coalesceKey` (e.g. typing
+ * into the same text field) collapse into a single history entry; `reset` replaces
+ * the value and clears history, for loading a fresh document.
+ */
+export const useUndoableState = <T,>(initial: T) => {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T, coalesceKey?: string) => {
+    setHistory(h => {
+      if (coalesceKey && coalesceKey === h.lastKey) {
+        return { ...h, present: next, future: [] };
+      }
+      return { past: [...h.past, h.present].slice(-MAX_HISTORY), present: next, future: [], lastKey: coalesceKey };
+    });
+  }, []);
+
+  const reset = useCallback((next: T) => {
+    setHistory({ past: [], present: next, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) };
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
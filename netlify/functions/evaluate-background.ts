@@ -0,0 +1,107 @@
+import { getJob, getJobInput, updateJob } from "../lib/jobStore";
+import { getModelProvider } from "../lib/providers";
+import { PromptPart, buildRepairParts } from "../lib/prompts";
+import { ApiError, errorResponse, toApiError } from "../lib/errors";
+import { verifyJobTrigger } from "../lib/auth";
+import { formatIssues, validateReport } from "../../services/reportValidator";
+
+// Partial output is persisted at most this often to keep Blobs writes cheap.
+const PROGRESS_INTERVAL_MS = 1500;
+
+// How many times the model is asked to correct a response that fails validation.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Returns the validation problems in a model response, or null when it is a valid report.
+const reportProblems = (output: string): string | null => {
+  let parsed: unknown;
+  try {
+    // Generation is constrained by a response schema, so output is plain JSON.
+    parsed = JSON.parse(output);
+  } catch {
+    return '- $: response is not valid JSON';
+  }
+  const { issues } = validateReport(parsed);
+  return issues.length === 0 ? null : formatIssues(issues);
+};
+
+class JobCancelledError extends Error {}
+
+// Only `evaluate` may start a run: it signs the job id after authenticating,
+// role-checking and rate-limiting the caller.
+const readTrigger = (event: any): string => {
+  let body: any;
+  try {
+    body = JSON.parse(event.body || "{}");
+  } catch {
+    throw new ApiError('INVALID_REQUEST', "Trigger body is not valid JSON.");
+  }
+  const jobId = body?.jobId;
+  if (typeof jobId !== 'string' || !jobId) throw new ApiError('INVALID_REQUEST', "Trigger has no jobId.");
+  if (!verifyJobTrigger(event, jobId)) throw new ApiError('UNAUTHENTICATED', `Unsigned trigger for ${jobId}.`);
+  return jobId;
+};
+
+// Netlify runs "-background" functions asynchronously: the caller gets 202 at once
+// and the outcome is written to the job store for `evaluate-status` to serve.
+export const handler = async (event: any) => {
+  let jobId: string;
+  try {
+    jobId = readTrigger(event);
+  } catch (err) {
+    // The job can't be trusted (or found) yet, so nothing is written to the store.
+    console.error("Rejected background evaluation trigger:", err);
+    return errorResponse(event, err);
+  }
+
+  try {
+    const existing = await getJob(event, jobId);
+    if (existing?.status === 'cancelled') throw new JobCancelledError();
+    // A replayed trigger must not run the same job (and model call) twice.
+    if (existing?.status !== 'queued') {
+      console.warn(`Ignoring trigger for ${jobId} in status ${existing?.status ?? 'missing'}.`);
+      return;
+    }
+    if (!(await updateJob(event, jobId, { status: 'running' }))) throw new JobCancelledError();
+    const prompt = await getJobInput(event, jobId);
+    if (!prompt) throw new Error("Job input is missing or has expired.");
+
+    const provider = getModelProvider();
+    console.log(`Evaluating ${jobId} with ${provider.name}`);
+
+    let lastWrite = 0;
+    const onProgress = async (textSoFar: string) => {
+      if (Date.now() - lastWrite < PROGRESS_INTERVAL_MS) return;
+      lastWrite = Date.now();
+      // A cancel from the client stops generation at the next progress write, which
+      // is skipped rather than written over the cancellation.
+      if (!(await updateJob(event, jobId, { partialOutput: textSoFar }))) throw new JobCancelledError();
+    };
+
+    const parts = [...(prompt as PromptPart[])];
+    let output = '';
+    let problems: string | null = null;
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      output = await provider.generate(parts, onProgress);
+      problems = reportProblems(output);
+      if (!problems) break;
+      console.warn(`Report for ${jobId} failed validation (attempt ${attempt + 1}):\n${problems}`);
+      parts.push(...buildRepairParts(output, problems));
+    }
+    if (problems) {
+      throw new ApiError('INVALID_OUTPUT', `AI returned an invalid report format after ${MAX_REPAIR_ATTEMPTS + 1} attempts:\n${problems}`);
+    }
+
+    if (!(await updateJob(event, jobId, { status: 'done', output, model: provider.name, partialOutput: undefined }))) {
+      throw new JobCancelledError();
+    }
+  } catch (err: any) {
+    if (err instanceof JobCancelledError) {
+      console.log(`Evaluation ${jobId} cancelled by the client.`);
+      return;
+    }
+    console.error(`Background Evaluation Error (${jobId}):`, err);
+    const apiError = toApiError(err);
+    await updateJob(event, jobId, { status: 'failed', code: apiError.code, error: apiError.message })
+      .catch(storeErr => console.error("Failed to record job failure:", storeErr));
+  }
+};
@@ -0,0 +1,37 @@
+import { cancelJob, getJob } from "../lib/jobStore";
+import { isOriginAllowed, jsonResponse, preflightResponse } from "../lib/http";
+import { ApiError, errorResponse } from "../lib/errors";
+import { requireUser } from "../lib/auth";
+
+// GET returns the job (with partial output while running); DELETE cancels it.
+export const handler = async (event: any) => {
+  if (event.httpMethod === "OPTIONS") return preflightResponse(event);
+
+  try {
+    if (!isOriginAllowed(event)) {
+      throw new ApiError('ORIGIN_NOT_ALLOWED', "This origin is not allowed to call the audit service.");
+    }
+    const user = requireUser(event);
+    const jobId = event.queryStringParameters?.jobId;
+    if (!jobId) throw new ApiError('INVALID_REQUEST', "jobId query parameter is required.");
+
+    const job = await getJob(event, jobId);
+    // Other users' jobs are reported as missing so job ids cannot be probed.
+    if (!job || (job.owner !== user.username && user.role !== 'admin')) {
+      throw new ApiError('NOT_FOUND', "Audit job not found.");
+    }
+
+    if (event.httpMethod === "DELETE") {
+      if (job.status === 'queued' || job.status === 'running') {
+        await cancelJob(event, jobId);
+      }
+      return jsonResponse(event, 200, { success: true });
+    }
+
+    // A failed job is still a successful status read; the job carries its own error code.
+    return jsonResponse(event, 200, { success: true, job });
+  } catch (err: any) {
+    console.error("Evaluation Status Error:", err);
+    return errorResponse(event, err);
+  }
+};
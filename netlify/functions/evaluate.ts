@@ -0,0 +1,62 @@
+import { createJob, createJobId } from "../lib/jobStore";
+import { isOriginAllowed, jsonResponse, preflightResponse } from "../lib/http";
+import { ApiError, errorResponse } from "../lib/errors";
+import { getModelProvider } from "../lib/providers";
+import { validateEvaluationRequest } from "../lib/requestValidation";
+import { buildPrompt, resolvePromptTemplate } from "../lib/prompts";
+import { enforceRateLimit } from "../lib/rateLimiter";
+import { JOB_SIGNATURE_HEADER, requireUser, signJobTrigger } from "../lib/auth";
+
+/**
+ * Accepts an audit job and returns its id immediately. The model call itself runs
+ * in `evaluate-background` (up to 15 minutes) and the client polls
+ * `evaluate-status`, so large scripts never hit the synchronous function timeout.
+ */
+export const handler = async (event: any) => {
+  if (event.httpMethod === "OPTIONS") return preflightResponse(event);
+
+  try {
+    if (!isOriginAllowed(event)) {
+      throw new ApiError('ORIGIN_NOT_ALLOWED', "This origin is not allowed to call the audit service.");
+    }
+    if (event.httpMethod !== "POST") {
+      throw new ApiError('INVALID_REQUEST', "Only POST requests are accepted.");
+    }
+    const user = requireUser(event, ['faculty', 'admin']);
+    // Fail fast on configuration problems instead of queuing a job that cannot run.
+    getModelProvider();
+    await enforceRateLimit(event, 'evaluate');
+
+    let body: any;
+    try {
+      body = JSON.parse(event.body || "{}");
+    } catch {
+      throw new ApiError('INVALID_REQUEST', "Request body is not valid JSON.");
+    }
+    const request = validateEvaluationRequest(body);
+    // Only admins may pin a prompt version; everyone else gets the configured default.
+    if (request.promptVersion && user.role !== 'admin') {
+      throw new ApiError('FORBIDDEN', "Only admins can choose a prompt version.");
+    }
+    const promptTemplate = resolvePromptTemplate(request.promptVersion);
+    const prompt = buildPrompt(request, promptTemplate);
+
+    const jobId = createJobId();
+    await createJob(event, jobId, user.username, promptTemplate.version, prompt);
+
+    const siteUrl = process.env.URL || `https://${event.headers?.host}`;
+    const trigger = await fetch(`${siteUrl}/.netlify/functions/evaluate-background`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", [JOB_SIGNATURE_HEADER]: signJobTrigger(jobId) },
+      body: JSON.stringify({ jobId }),
+    });
+    if (!trigger.ok) {
+      throw new ApiError('INTERNAL', `Failed to start background evaluation (HTTP ${trigger.status}).`);
+    }
+
+    return jsonResponse(event, 202, { success: true, jobId, promptVersion: promptTemplate.version });
+  } catch (err: any) {
+    console.error("Evaluation Submit Error:", err);
+    return errorResponse(event, err);
+  }
+};
@@ -0,0 +1,36 @@
+import { isOriginAllowed, jsonResponse, preflightResponse } from "../lib/http";
+import { ApiError, errorResponse } from "../lib/errors";
+import { authenticate, issueToken } from "../lib/auth";
+import { enforceRateLimit } from "../lib/rateLimiter";
+
+export const handler = async (event: any) => {
+  if (event.httpMethod === "OPTIONS") return preflightResponse(event);
+
+  try {
+    if (!isOriginAllowed(event)) {
+      throw new ApiError('ORIGIN_NOT_ALLOWED', "This origin is not allowed to call the audit service.");
+    }
+    if (event.httpMethod !== "POST") {
+      throw new ApiError('INVALID_REQUEST', "Only POST requests are accepted.");
+    }
+    // Shares the limiter with audits but in its own bucket, to slow password guessing.
+    await enforceRateLimit(event, 'login');
+
+    let body: any;
+    try {
+      body = JSON.parse(event.body || "{}");
+    } catch {
+      throw new ApiError('INVALID_REQUEST', "Request body is not valid JSON.");
+    }
+    if (typeof body?.username !== 'string' || typeof body?.password !== 'string') {
+      throw new ApiError('INVALID_REQUEST', "username and password are required.");
+    }
+
+    const user = authenticate(body.username, body.password);
+    const { token, expiresAt } = issueToken(user);
+    return jsonResponse(event, 200, { success: true, token, expiresAt, user });
+  } catch (err: any) {
+    console.error("Login Error:", err);
+    return errorResponse(event, err);
+  }
+};
@@ -0,0 +1,23 @@
+import { isOriginAllowed, jsonResponse, preflightResponse } from "../lib/http";
+import { ApiError, errorResponse } from "../lib/errors";
+import { requireUser } from "../lib/auth";
+import { listPromptVersions } from "../lib/prompts";
+
+// Lists the server's prompt templates so admins can pick versions to compare.
+export const handler = async (event: any) => {
+  if (event.httpMethod === "OPTIONS") return preflightResponse(event);
+
+  try {
+    if (!isOriginAllowed(event)) {
+      throw new ApiError('ORIGIN_NOT_ALLOWED', "This origin is not allowed to call the audit service.");
+    }
+    if (event.httpMethod !== "GET") {
+      throw new ApiError('INVALID_REQUEST', "Only GET requests are accepted.");
+    }
+    requireUser(event);
+    return jsonResponse(event, 200, { success: true, versions: listPromptVersions() });
+  } catch (err: any) {
+    console.error("Prompt Versions Error:", err);
+    return errorResponse(event, err);
+  }
+};
@@ -0,0 +1,101 @@
+import { createHmac, scryptSync, timingSafeEqual } from "crypto";
+import { StaffRole, StaffUser } from "../../types";
+import { ApiError } from "./errors";
+
+/**
+ * Staff accounts come from the STAFF_ACCOUNTS environment variable, a JSON array of
+ * `{ username, name, role, passwordHash }` where passwordHash is `scrypt$<salt>$<hex>`.
+ * Sessions are HMAC-signed tokens (AUTH_SECRET), so no external identity service is needed.
+ */
+interface StaffAccount extends StaffUser {
+  passwordHash: string;
+}
+
+interface TokenPayload extends StaffUser {
+  exp: number;
+}
+
+const TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+const ROLES: StaffRole[] = ['faculty', 'reviewer', 'admin'];
+
+const requireSecret = (): string => {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) throw new ApiError('MISCONFIGURED', "AUTH_SECRET environment variable is not set.");
+  return secret;
+};
+
+const loadAccounts = (): StaffAccount[] => {
+  let accounts: unknown;
+  try {
+    accounts = JSON.parse(process.env.STAFF_ACCOUNTS || "[]");
+  } catch {
+    throw new ApiError('MISCONFIGURED', "STAFF_ACCOUNTS is not valid JSON.");
+  }
+  if (!Array.isArray(accounts)) throw new ApiError('MISCONFIGURED', "STAFF_ACCOUNTS must be a JSON array.");
+  return accounts.filter((a: any) => a && typeof a.username === 'string' && ROLES.includes(a.role) && typeof a.passwordHash === 'string');
+};
+
+const verifyPassword = (password: string, stored: string): boolean => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+const sign = (data: string) => createHmac('sha256', requireSecret()).update(data).digest('base64url');
+
+export const issueToken = (user: StaffUser): { token: string; expiresAt: string } => {
+  const payload: TokenPayload = { username: user.username, name: user.name, role: user.role, exp: Date.now() + TOKEN_TTL_MS };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return { token: `${data}.${sign(data)}`, expiresAt: new Date(payload.exp).toISOString() };
+};
+
+export const verifyToken = (token: string): StaffUser | null => {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload: TokenPayload = JSON.parse(Buffer.from(data, 'base64url').toString());
+    if (!payload.exp || payload.exp < Date.now() || !ROLES.includes(payload.role)) return null;
+    return { username: payload.username, name: payload.name, role: payload.role };
+  } catch {
+    return null;
+  }
+};
+
+export const authenticate = (username: string, password: string): StaffUser => {
+  const account = loadAccounts().find(a => a.username.toLowerCase() === username.trim().toLowerCase());
+  if (!account || !verifyPassword(password, account.passwordHash)) {
+    throw new ApiError('UNAUTHENTICATED', "Invalid username or password.");
+  }
+  return { username: account.username, name: account.name || account.username, role: account.role };
+};
+
+export const requireUser = (event: any, roles: StaffRole[] = ROLES): StaffUser => {
+  const header: string = event.headers?.authorization || event.headers?.Authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const user = token ? verifyToken(token) : null;
+  if (!user) throw new ApiError('UNAUTHENTICATED', "Sign in to use the audit service.");
+  if (!roles.includes(user.role)) {
+    throw new ApiError('FORBIDDEN', `The ${user.role} role cannot perform this action.`);
+  }
+  return user;
+};
+
+// `evaluate` signs the job id when it triggers `evaluate-background`, which is
+// otherwise a public URL; the prefix keeps these signatures distinct from tokens.
+export const JOB_SIGNATURE_HEADER = 'x-job-signature';
+
+export const signJobTrigger = (jobId: string): string => sign(`job-trigger:${jobId}`);
+
+export const verifyJobTrigger = (event: any, jobId: string): boolean => {
+  const signature: string = event.headers?.[JOB_SIGNATURE_HEADER] || '';
+  const expected = Buffer.from(signJobTrigger(jobId));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,60 @@
+import { ApiErrorCode } from "../../types";
+import { jsonResponse } from "./http";
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  ORIGIN_NOT_ALLOWED: 403,
+  NOT_FOUND: 404,
+  PAYLOAD_TOO_LARGE: 413,
+  UPSTREAM_SAFETY_BLOCK: 422,
+  RATE_LIMITED: 429,
+  UPSTREAM_RATE_LIMITED: 429,
+  MISCONFIGURED: 500,
+  INTERNAL: 500,
+  UPSTREAM_ERROR: 502,
+  INVALID_OUTPUT: 502,
+};
+
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  status: number;
+
+  constructor(code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+/**
+ * Maps anything thrown by the Gemini SDK (or our own code) onto an ApiError.
+ * The SDK surfaces HTTP failures with a numeric `status`; older paths only put
+ * the upstream status name in the message, so both are checked.
+ */
+export const toApiError = (err: any): ApiError => {
+  if (err instanceof ApiError) return err;
+
+  const message: string = err?.message || "An internal error occurred while processing the medical audit.";
+  const status = typeof err?.status === 'number' ? err.status : undefined;
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new ApiError('UPSTREAM_RATE_LIMITED', message);
+  }
+  if (status === 413 || /payload size|request entity too large|exceeds the maximum/i.test(message)) {
+    return new ApiError('PAYLOAD_TOO_LARGE', message);
+  }
+  if (status === 401 || status === 403 || /API key not valid|PERMISSION_DENIED/i.test(message)) {
+    return new ApiError('MISCONFIGURED', message);
+  }
+  if (status === 400) return new ApiError('INVALID_REQUEST', message);
+  if (status !== undefined && status >= 500) return new ApiError('UPSTREAM_ERROR', message);
+  return new ApiError('INTERNAL', message);
+};
+
+export const errorResponse = (event: any, err: unknown) => {
+  const apiError = toApiError(err);
+  return jsonResponse(event, apiError.status, { success: false, code: apiError.code, error: apiError.message });
+};
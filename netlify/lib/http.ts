@@ -0,0 +1,45 @@
+// Browsers send Origin on cross-site and on same-origin POSTs; calls without one
+// (server-to-server, curl) are left to the rate limiter rather than CORS.
+const allowedOrigins = (): string[] =>
+  [process.env.ALLOWED_ORIGINS, process.env.URL, process.env.DEPLOY_PRIME_URL]
+    .filter(Boolean)
+    .flatMap(value => (value as string).split(','))
+    .map(origin => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+
+const requestOrigin = (event: any): string | undefined =>
+  event.headers?.origin || event.headers?.Origin;
+
+export const isOriginAllowed = (event: any): boolean => {
+  const origin = requestOrigin(event);
+  return !origin || allowedOrigins().includes(origin);
+};
+
+const responseHeaders = (event: any) => {
+  const origin = requestOrigin(event);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+    "Vary": "Origin",
+  };
+  if (origin && isOriginAllowed(event)) headers["Access-Control-Allow-Origin"] = origin;
+  return headers;
+};
+
+export const jsonResponse = (event: any, statusCode: number, body: unknown) => ({
+  statusCode,
+  headers: responseHeaders(event),
+  body: JSON.stringify(body),
+});
+
+export const preflightResponse = (event: any) => ({
+  statusCode: isOriginAllowed(event) ? 204 : 403,
+  headers: responseHeaders(event),
+  body: "",
+});
+
+export const clientKey = (event: any): string =>
+  event.headers?.["x-nf-client-connection-ip"] ||
+  event.headers?.["x-forwarded-for"]?.split(',')[0].trim() ||
+  'unknown';
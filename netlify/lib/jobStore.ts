@@ -0,0 +1,85 @@
+import { connectLambda, getStore } from "@netlify/blobs";
+import { ApiErrorCode } from "../../types";
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface EvaluationJob {
+  id: string;
+  status: JobStatus;
+  output?: string;
+  // Model text received so far, refreshed while the job is running.
+  partialOutput?: string;
+  error?: string;
+  code?: ApiErrorCode;
+  owner: string;
+  promptVersion: string;
+  // Provider name of the run that produced `output`.
+  model?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const STORE_NAME = 'audit-jobs';
+
+// Lambda-style handlers must hand the Blobs context from the event to the client.
+const jobStore = (event: any) => {
+  connectLambda(event);
+  return getStore(STORE_NAME);
+};
+
+const jobKey = (id: string) => `jobs/${id}`;
+const inputKey = (id: string) => `inputs/${id}`;
+// Cancellation gets its own key, which only `cancelJob` writes, so a worker's
+// read-modify-write of the job record can never undo it.
+const cancelKey = (id: string) => `cancels/${id}`;
+
+const TERMINAL_STATUSES: JobStatus[] = ['done', 'failed', 'cancelled'];
+
+export const createJobId = () => `job-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createJob = async (event: any, id: string, owner: string, promptVersion: string, prompt: unknown): Promise<EvaluationJob> => {
+  const store = jobStore(event);
+  const now = new Date().toISOString();
+  const job: EvaluationJob = { id, status: 'queued', owner, promptVersion, createdAt: now, updatedAt: now };
+  // The prompt (often several MB of base64 images) is stored once and read back by the worker.
+  await store.setJSON(inputKey(id), prompt);
+  await store.setJSON(jobKey(id), job);
+  return job;
+};
+
+export const getJob = async (event: any, id: string): Promise<EvaluationJob | null> => {
+  const store = jobStore(event);
+  const job: EvaluationJob | null = (await store.get(jobKey(id), { type: 'json' })) || null;
+  if (job && !TERMINAL_STATUSES.includes(job.status) && (await store.get(cancelKey(id)))) {
+    return { ...job, status: 'cancelled', partialOutput: undefined };
+  }
+  return job;
+};
+
+export const getJobInput = async (event: any, id: string): Promise<unknown> =>
+  jobStore(event).get(inputKey(id), { type: 'json' });
+
+// A job that has finished, failed or been cancelled is never written again.
+// Returns false when the write was skipped for that reason.
+export const updateJob = async (event: any, id: string, patch: Partial<EvaluationJob>): Promise<boolean> => {
+  const store = jobStore(event);
+  const existing = await getJob(event, id);
+  if (!existing) throw new Error(`Job ${id} not found.`);
+  if (TERMINAL_STATUSES.includes(existing.status)) return false;
+  await store.setJSON(jobKey(id), { ...existing, ...patch, updatedAt: new Date().toISOString() });
+  if (patch.status && TERMINAL_STATUSES.includes(patch.status)) {
+    await store.delete(inputKey(id));
+  }
+  return true;
+};
+
+export const cancelJob = async (event: any, id: string): Promise<void> => {
+  const store = jobStore(event);
+  await store.set(cancelKey(id), new Date().toISOString());
+  // The record is updated too, for readers that list jobs; `getJob` already honours the key.
+  const existing = await getJob(event, id);
+  if (existing) {
+    await store.setJSON(jobKey(id), { ...existing, status: 'cancelled', partialOutput: undefined, updatedAt: new Date().toISOString() });
+  }
+  await store.delete(inputKey(id));
+};
@@ -0,0 +1,83 @@
+import { DocumentPayload, EvaluationRequest, PromptVersionInfo } from "../../../types";
+import { ApiError } from "../errors";
+import { PROMPT_TEMPLATES, PromptTemplate } from "./versions";
+
+export type PromptPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+const FALLBACK_VERSION = 'v1';
+
+// PROMPT_VERSION selects which template live audits use, so prompts change without a frontend deploy.
+const defaultVersion = (): string => {
+  const configured = process.env.PROMPT_VERSION || FALLBACK_VERSION;
+  if (!PROMPT_TEMPLATES.some(t => t.version === configured)) {
+    throw new ApiError('MISCONFIGURED', `PROMPT_VERSION "${configured}" does not match any prompt template.`);
+  }
+  return configured;
+};
+
+export const listPromptVersions = (): PromptVersionInfo[] => {
+  const current = defaultVersion();
+  return PROMPT_TEMPLATES.map(t => ({ version: t.version, description: t.description, isDefault: t.version === current }));
+};
+
+export const resolvePromptTemplate = (requested?: string): PromptTemplate => {
+  const version = requested || defaultVersion();
+  const template = PROMPT_TEMPLATES.find(t => t.version === version);
+  if (!template) throw new ApiError('INVALID_REQUEST', `Unknown prompt version "${version}".`);
+  return template;
+};
+
+// Each document is introduced by its own label so the model never has to guess
+// which upload is the key and which is the student's script.
+const pushDocument = (parts: PromptPart[], label: string, doc?: DocumentPayload) => {
+  if (!doc) return;
+  parts.push({ text: `=== ${label} (file: ${doc.name}) ===` });
+  if (doc.text) parts.push({ text: doc.text });
+  const attachments = doc.attachments || [];
+  attachments.forEach(({ data, mimeType }, i) => {
+    if (attachments.length > 1) parts.push({ text: `--- ${label} page ${i + 1} of ${attachments.length} ---` });
+    parts.push({ inlineData: { data, mimeType } });
+  });
+};
+
+const describeTemplate = (template: NonNullable<EvaluationRequest['template']>): string => {
+  const maxScore = template.questions.reduce((acc, q) => acc + q.maxMarks, 0);
+  const lines = template.questions.map(q => {
+    const points = q.keyPoints.length > 0 ? ` Expected key points: ${q.keyPoints.join('; ')}.` : '';
+    return `- qNo "${q.qNo}" (maxMarks ${q.maxMarks}).${points}`;
+  });
+  return [
+    `TEST TEMPLATE (authoritative structure): "${template.title}" | Topics: ${template.topics} | Date: ${template.testDate}`,
+    `Return exactly these questions, in this order, using these qNo values and maxMarks. maxScore is ${maxScore}.`,
+    'Never award more than maxMarks for a question. Mark a question "Not attempted" with 0 marks if the student skipped it.',
+    ...lines,
+  ].join('\n');
+};
+
+export const buildPrompt = (request: EvaluationRequest, template: PromptTemplate): PromptPart[] => {
+  const { mode, documents } = request;
+  const parts: PromptPart[] = [{
+    text: template.instructions[mode]({
+      hasQuestionPaper: !!documents.questionPaper,
+      hasAnswerKey: !!documents.answerKey,
+    }),
+  }];
+  if (request.template) parts.push({ text: describeTemplate(request.template) });
+
+  pushDocument(parts, 'QUESTION PAPER', documents.questionPaper);
+  pushDocument(parts, 'ANSWER KEY', documents.answerKey);
+  pushDocument(parts, 'STUDENT SCRIPT', documents.studentScript);
+  if (mode === 'with-manual') pushDocument(parts, 'FACULTY NOTES', documents.facultyNotes);
+
+  parts.push({ text: "Based on the provided medical evaluation documents, generate the comprehensive evaluation report JSON." });
+  return parts;
+};
+
+export const REPAIR_PREFIX = 'Your previous response:';
+
+export const buildRepairParts = (output: string, problems: string): PromptPart[] => [
+  { text: `${REPAIR_PREFIX}\n${output}` },
+  { text: `It failed validation with these problems:\n${problems}\nReturn the complete corrected report JSON only, fixing every problem listed.` },
+];
@@ -0,0 +1,67 @@
+import { EvaluationMode } from "../../../types";
+
+export interface PromptContext {
+  hasQuestionPaper: boolean;
+  hasAnswerKey: boolean;
+}
+
+export interface PromptTemplate {
+  version: string;
+  description: string;
+  instructions: Record<EvaluationMode, (ctx: PromptContext) => string>;
+}
+
+const documentsPreamble = ({ hasQuestionPaper, hasAnswerKey }: PromptContext) => `
+DOCUMENTS: Each document below is preceded by a "=== LABEL ===" line stating what it is.
+${hasQuestionPaper ? 'QUESTION PAPER is supplied separately.' : 'No separate QUESTION PAPER: take the questions from the other documents.'}
+${hasAnswerKey ? 'ANSWER KEY is supplied separately and is the sole authority for facts.' : 'No separate ANSWER KEY: it may be included within the STUDENT SCRIPT.'}`;
+
+const OUTPUT_RULES = `
+OUTPUT: The response format is enforced by a JSON schema. For each question set "status" to
+"unattempted" if the student skipped it, "correct" if fully right, otherwise "partial".
+Fill every generalFeedback section with at least one point.`;
+
+// v1 is the prompt the client used to build before prompts moved server-side.
+const V1: PromptTemplate = {
+  version: 'v1',
+  description: 'Original evaluator prompt.',
+  instructions: {
+    'with-manual': ctx => `
+You are the "Anatomy Guru Master Evaluator". Create a medical audit report.
+${documentsPreamble(ctx)}
+MODE: with-manual.
+Prioritize Answer Key for facts, Faculty Notes for marks. Flag factual contradictions. Copy the mark written in the Faculty Notes for each question into "facultyMarks" (null if none is written).
+${OUTPUT_RULES}`,
+    'without-manual': ctx => `
+You are the "Anatomy Guru Master Evaluator". Create a medical audit report.
+${documentsPreamble(ctx)}
+MODE: without-manual.
+Evaluate ALL questions in QP against Key. Set "facultyMarks" to null.
+${OUTPUT_RULES}`,
+  },
+};
+
+// v2 asks for feedback that names the missing key points behind every deduction.
+const V2: PromptTemplate = {
+  version: 'v2',
+  description: 'Deductions must cite the missing answer-key points.',
+  instructions: {
+    'with-manual': ctx => `
+You are the "Anatomy Guru Master Evaluator". Create a medical audit report.
+${documentsPreamble(ctx)}
+MODE: with-manual.
+Faculty Notes decide the marks; the Answer Key decides what is factually correct. Copy the mark written in the Faculty Notes for each question into "facultyMarks" (null if none is written).
+Set "isFlagged" only when the student's answer contradicts the Answer Key, not for omissions.
+For every question that loses marks, the first feedback point must name the specific key points that were missing or wrong.
+${OUTPUT_RULES}`,
+    'without-manual': ctx => `
+You are the "Anatomy Guru Master Evaluator". Create a medical audit report.
+${documentsPreamble(ctx)}
+MODE: without-manual.
+Evaluate ALL questions in QP against Key and award marks yourself. Set "facultyMarks" to null.
+For every question that loses marks, the first feedback point must name the specific key points that were missing or wrong.
+${OUTPUT_RULES}`,
+  },
+};
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [V1, V2];
@@ -0,0 +1,53 @@
+import { GoogleGenAI } from "@google/genai";
+import { ApiError } from "../errors";
+import { PromptPart } from "../prompts";
+import { REPORT_RESPONSE_SCHEMA } from "../reportSchema";
+import { GenerationSettings, ModelProvider, ProgressListener } from "./types";
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST'];
+
+export const createGeminiProvider = (settings: GenerationSettings): ModelProvider => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new ApiError('MISCONFIGURED', "API_KEY environment variable is not set.");
+  }
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: `gemini:${settings.model}`,
+    generate: async (prompt: PromptPart[], onProgress?: ProgressListener) => {
+      const stream = await ai.models.generateContentStream({
+        model: settings.model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: REPORT_RESPONSE_SCHEMA,
+          temperature: settings.temperature,
+          topP: settings.topP,
+          maxOutputTokens: settings.maxOutputTokens,
+        },
+      });
+
+      let text = '';
+      for await (const chunk of stream) {
+        const blockReason = chunk.promptFeedback?.blockReason;
+        if (blockReason) {
+          throw new ApiError('UPSTREAM_SAFETY_BLOCK', `The request was blocked by the model's safety filters (${blockReason}).`);
+        }
+        const finishReason = chunk.candidates?.[0]?.finishReason;
+        if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+          throw new ApiError('UPSTREAM_SAFETY_BLOCK', `The response was blocked by the model's safety filters (${finishReason}).`);
+        }
+        if (chunk.text) {
+          text += chunk.text;
+          await onProgress?.(text);
+        }
+      }
+
+      if (!text) {
+        throw new ApiError('UPSTREAM_ERROR', "Gemini AI returned an empty response.");
+      }
+      return text;
+    },
+  };
+};
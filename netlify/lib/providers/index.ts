@@ -0,0 +1,40 @@
+import { ApiError } from "../errors";
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { GenerationSettings, ModelProvider } from "./types";
+
+export type { GenerationSettings, ModelProvider, ProgressListener } from "./types";
+
+const DEFAULT_MODEL = "gemini-3-flash-preview";
+const DEFAULT_TEMPERATURE = 0.1;
+
+const optionalNumber = (name: string): number | undefined => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) throw new ApiError('MISCONFIGURED', `${name} must be a number (got "${raw}").`);
+  return value;
+};
+
+export const loadGenerationSettings = (): GenerationSettings => ({
+  model: process.env.MODEL_NAME || DEFAULT_MODEL,
+  temperature: optionalNumber('MODEL_TEMPERATURE') ?? DEFAULT_TEMPERATURE,
+  topP: optionalNumber('MODEL_TOP_P'),
+  maxOutputTokens: optionalNumber('MODEL_MAX_OUTPUT_TOKENS'),
+});
+
+/**
+ * Picks the backend from MODEL_PROVIDER (`gemini` by default, or `mock` for
+ * offline development). Throws MISCONFIGURED when the choice can't run.
+ */
+export const getModelProvider = (): ModelProvider => {
+  const provider = (process.env.MODEL_PROVIDER || 'gemini').toLowerCase();
+  switch (provider) {
+    case 'gemini':
+      return createGeminiProvider(loadGenerationSettings());
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new ApiError('MISCONFIGURED', `Unknown MODEL_PROVIDER "${provider}".`);
+  }
+};
@@ -0,0 +1,56 @@
+import { ApiError } from "../errors";
+import { PromptPart, REPAIR_PREFIX } from "../prompts";
+import { MOCK_FIXTURES } from "./mockFixtures";
+import { ModelProvider, ProgressListener } from "./types";
+
+const STUDENT_LABEL = /=== STUDENT SCRIPT \(file: (.+?)\) ===/;
+
+// Names the report after the uploaded script so batch runs produce distinguishable reports.
+const studentNameFromPrompt = (prompt: PromptPart[]): string | null => {
+  for (const part of prompt) {
+    const match = 'text' in part ? part.text.match(STUDENT_LABEL) : null;
+    if (match) return match[1].replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim();
+  }
+  return null;
+};
+
+// The canned text is released in this many pieces so progress can be exercised offline.
+const STREAM_CHUNKS = 8;
+
+const isRepairRequest = (prompt: PromptPart[]) =>
+  prompt.some(part => 'text' in part && part.text.startsWith(REPAIR_PREFIX));
+
+/**
+ * Deterministic offline provider. MOCK_FIXTURE picks the canned response
+ * (`default`, `invalid`, or one of the error codes `rate-limited` / `safety-block`
+ * / `upstream-error`); MOCK_LATENCY_MS simulates model latency, spread across
+ * streamed chunks.
+ */
+export const createMockProvider = (): ModelProvider => {
+  const fixtureName = process.env.MOCK_FIXTURE || 'default';
+  const latency = Number(process.env.MOCK_LATENCY_MS) || 0;
+
+  return {
+    name: `mock:${fixtureName}`,
+    generate: async (prompt: PromptPart[], onProgress?: ProgressListener) => {
+      if (fixtureName === 'rate-limited') throw new ApiError('UPSTREAM_RATE_LIMITED', "Mock provider: quota exhausted.");
+      if (fixtureName === 'safety-block') throw new ApiError('UPSTREAM_SAFETY_BLOCK', "Mock provider: response blocked (SAFETY).");
+      if (fixtureName === 'upstream-error') throw new ApiError('UPSTREAM_ERROR', "Mock provider: upstream unavailable.");
+
+      const fixture = MOCK_FIXTURES[fixtureName];
+      if (!fixture) throw new ApiError('MISCONFIGURED', `Unknown MOCK_FIXTURE "${fixtureName}".`);
+
+      // An invalid fixture is corrected on the repair attempt, like a real model would.
+      const response: any = fixtureName === 'invalid' && isRepairRequest(prompt) ? MOCK_FIXTURES.default : fixture;
+      const studentName = studentNameFromPrompt(prompt);
+      const text = JSON.stringify(studentName ? { ...response, studentName } : response, null, 2);
+
+      const chunkSize = Math.ceil(text.length / STREAM_CHUNKS);
+      for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+        if (latency > 0) await new Promise(resolve => setTimeout(resolve, latency / STREAM_CHUNKS));
+        await onProgress?.(text.slice(0, end));
+      }
+      return text;
+    },
+  };
+};
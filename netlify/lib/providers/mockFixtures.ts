@@ -0,0 +1,82 @@
+// Canned model responses for the mock provider. `default` is a complete, valid
+// report; the others exercise the client's repair and error-handling paths.
+export const MOCK_REPORT = {
+  studentName: "Mock Student",
+  testTitle: "Upper Limb Grand Test",
+  testTopics: "Brachial plexus, Shoulder joint, Cubital fossa",
+  testDate: "2025-01-15",
+  totalScore: 14,
+  maxScore: 20,
+  questionCount: 4,
+  questions: [
+    {
+      qNo: "1",
+      feedbackPoints: [
+        "**Correct** roots, trunks and divisions of the brachial plexus.",
+        "Diagram is neat but the cords are not labelled relative to the axillary artery.",
+      ],
+      marks: 4,
+      maxMarks: 5,
+      isCorrect: false,
+      status: "partial",
+      isFlagged: false,
+      facultyMarks: 4,
+    },
+    {
+      qNo: "2",
+      feedbackPoints: [
+        "Excellent description of the rotator cuff and its actions.",
+        "Blood supply and nerve supply are precise.",
+      ],
+      marks: 5,
+      maxMarks: 5,
+      isCorrect: true,
+      status: "correct",
+      isFlagged: false,
+      facultyMarks: 5,
+    },
+    {
+      qNo: "3",
+      feedbackPoints: [
+        "Boundaries of the cubital fossa are partly correct; the floor is missed.",
+        "Contents listed in the wrong lateral-to-medial order.",
+      ],
+      marks: 5,
+      maxMarks: 5,
+      isCorrect: false,
+      status: "partial",
+      isFlagged: true,
+      facultyMarks: 5,
+    },
+    {
+      qNo: "4",
+      feedbackPoints: ["Not attempted."],
+      marks: 0,
+      maxMarks: 5,
+      isCorrect: false,
+      status: "unattempted",
+      isFlagged: false,
+      facultyMarks: null,
+    },
+  ],
+  generalFeedback: {
+    overallPerformance: ["Good grasp of the shoulder region; revise the cubital fossa."],
+    mcqs: ["No MCQs in this paper."],
+    contentAccuracy: ["Mostly accurate; one contradiction with the key in Q3."],
+    completenessOfAnswers: ["Q4 was left blank."],
+    presentationDiagrams: ["Label every diagram fully, including relations."],
+    investigations: ["Mention nerve conduction studies for plexus injuries."],
+    attemptingQuestions: ["Attempt every question, even briefly."],
+    actionPoints: ["Redraw the brachial plexus with relations.", "Revise cubital fossa contents (TAN order)."],
+  },
+};
+
+export const MOCK_FIXTURES: Record<string, unknown> = {
+  default: MOCK_REPORT,
+  // Marks above maxMarks and a missing section: fails validation so the repair loop runs.
+  invalid: {
+    ...MOCK_REPORT,
+    questions: MOCK_REPORT.questions.map(q => (q.qNo === "1" ? { ...q, marks: 9 } : q)),
+    generalFeedback: { ...MOCK_REPORT.generalFeedback, actionPoints: undefined },
+  },
+};
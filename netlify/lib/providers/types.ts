@@ -0,0 +1,21 @@
+import { PromptPart } from "../prompts";
+
+export interface GenerationSettings {
+  model: string;
+  temperature: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+// Receives the full text generated so far; may reject to abort generation.
+export type ProgressListener = (textSoFar: string) => void | Promise<void>;
+
+/**
+ * A backend that turns a validated prompt into the raw report JSON text.
+ * Implementations throw `ApiError` so failures keep their typed codes, and
+ * report partial output through `onProgress` as it is generated.
+ */
+export interface ModelProvider {
+  name: string;
+  generate: (prompt: PromptPart[], onProgress?: ProgressListener) => Promise<string>;
+}
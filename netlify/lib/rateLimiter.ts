@@ -0,0 +1,60 @@
+import { ApiError } from "./errors";
+import { clientKey } from "./http";
+
+/**
+ * Storage behind the rate limiter. `hit` records one request for `key` and
+ * returns how many requests that key has made in the current window.
+ */
+export interface RateLimitStore {
+  hit: (key: string, windowMs: number) => Promise<number>;
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Per-instance only: each warm function container keeps its own counts, which is
+// enough to stop casual abuse. Swap for a shared store (e.g. Blobs) to make it global.
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  let nextSweepAt = 0;
+
+  // Expired windows are dropped at most once a minute, so the map only holds
+  // clients seen in the current window.
+  const sweep = (now: number) => {
+    if (now < nextSweepAt) return;
+    nextSweepAt = now + SWEEP_INTERVAL_MS;
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  };
+
+  return {
+    hit: async (key, windowMs) => {
+      const now = Date.now();
+      sweep(now);
+      const current = windows.get(key);
+      if (!current || current.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + windowMs });
+        return 1;
+      }
+      current.count += 1;
+      return current.count;
+    },
+  };
+};
+
+const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000;
+const DEFAULT_MAX_REQUESTS = 60;
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+export const setRateLimitStore = (next: RateLimitStore) => {
+  store = next;
+};
+
+export const enforceRateLimit = async (event: any, scope: string): Promise<void> => {
+  const max = Number(process.env.RATE_LIMIT_MAX_REQUESTS) || DEFAULT_MAX_REQUESTS;
+  const count = await store.hit(`${scope}:${clientKey(event)}`, RATE_LIMIT_WINDOW_MS);
+  if (count > max) {
+    throw new ApiError('RATE_LIMITED', `Rate limit exceeded: at most ${max} requests per ${RATE_LIMIT_WINDOW_MS / 60000} minutes.`);
+  }
+};
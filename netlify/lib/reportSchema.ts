@@ -0,0 +1,71 @@
+import { Schema, Type } from "@google/genai";
+import { EvaluationReport, GeneralFeedbackSection, QuestionFeedback } from "../../types";
+
+// Keyed by the client types so a field added to EvaluationReport without a schema
+// entry (or vice versa) is a compile error. Client-only fields are excluded.
+type ModelQuestionField = Exclude<keyof QuestionFeedback, 'isEdited'>;
+// `questionCount` is schema-only: generated before the questions so the client can
+// show "Q7 of 22" while the response is still streaming.
+type ModelReportField = Exclude<keyof EvaluationReport, 'editedSections' | 'acknowledgedIssues' | 'generatedBy' | 'approvedBy' | 'promptVersion' | 'model' | 'studentId'> | 'questionCount';
+
+const stringList: Schema = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+const generalFeedbackProperties: Record<keyof GeneralFeedbackSection, Schema> = {
+  overallPerformance: stringList,
+  mcqs: stringList,
+  contentAccuracy: stringList,
+  completenessOfAnswers: stringList,
+  presentationDiagrams: stringList,
+  investigations: stringList,
+  attemptingQuestions: stringList,
+  actionPoints: stringList,
+};
+
+const questionProperties: Record<ModelQuestionField, Schema> = {
+  qNo: { type: Type.STRING, description: 'Question number exactly as printed, e.g. "1", "3a".' },
+  feedbackPoints: { ...stringList, minItems: '1', description: 'Specific feedback; wrap key terms in **double asterisks**.' },
+  marks: { type: Type.NUMBER, minimum: 0, description: 'Marks awarded; never above maxMarks.' },
+  maxMarks: { type: Type.NUMBER, minimum: 0 },
+  isCorrect: { type: Type.BOOLEAN },
+  status: {
+    type: Type.STRING,
+    format: 'enum',
+    enum: ['correct', 'partial', 'unattempted'],
+    description: 'unattempted if the student skipped it, correct if fully right, otherwise partial.',
+  },
+  isFlagged: { type: Type.BOOLEAN, description: 'True when faculty notes contradicted the answer key and the key was used.' },
+  facultyMarks: { type: Type.NUMBER, nullable: true, description: 'Mark written in the faculty notes, or null.' },
+};
+
+const reportProperties: Record<ModelReportField, Schema> = {
+  studentName: { type: Type.STRING },
+  testTitle: { type: Type.STRING },
+  testTopics: { type: Type.STRING },
+  testDate: { type: Type.STRING },
+  totalScore: { type: Type.NUMBER, minimum: 0 },
+  maxScore: { type: Type.NUMBER, minimum: 0 },
+  questionCount: { type: Type.INTEGER, minimum: 1, description: 'Number of entries that will follow in "questions".' },
+  questions: {
+    type: Type.ARRAY,
+    minItems: '1',
+    items: {
+      type: Type.OBJECT,
+      properties: questionProperties,
+      required: ['qNo', 'feedbackPoints', 'marks', 'maxMarks', 'isCorrect', 'status', 'isFlagged', 'facultyMarks'],
+      propertyOrdering: Object.keys(questionProperties),
+    },
+  },
+  generalFeedback: {
+    type: Type.OBJECT,
+    properties: generalFeedbackProperties,
+    required: Object.keys(generalFeedbackProperties),
+    propertyOrdering: Object.keys(generalFeedbackProperties),
+  },
+};
+
+export const REPORT_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: reportProperties,
+  required: Object.keys(reportProperties),
+  propertyOrdering: Object.keys(reportProperties),
+};
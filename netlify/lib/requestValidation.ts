@@ -0,0 +1,161 @@
+import { DocumentPayload, EvaluationMode, EvaluationRequest, TemplateQuestion } from "../../types";
+import { ApiError } from "./errors";
+
+export const ALLOWED_INLINE_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+];
+
+const MODES: EvaluationMode[] = ['with-manual', 'without-manual'];
+const DOCUMENT_SLOTS = ['questionPaper', 'answerKey', 'studentScript', 'facultyNotes'] as const;
+
+// Netlify caps synchronous function bodies at 6 MB. Sizes are measured as sent (base64
+// text, ~4/3 of the decoded file), and the total leaves room for the JSON around it.
+const MAX_ATTACHMENTS = 80;
+const MAX_TEXT_CHARS = 400_000;
+const MAX_INLINE_PART_BYTES = 4 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 5.5 * 1024 * 1024;
+const MAX_TEMPLATE_QUESTIONS = 200;
+const MAX_TEMPLATE_FIELD_CHARS = 2_000;
+const MAX_KEY_POINTS = 50;
+const MAX_KEY_POINT_CHARS = 1_000;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown, path: string): string => {
+  if (value === undefined) return '';
+  if (typeof value !== 'string') throw new ApiError('INVALID_REQUEST', `${path} must be a string.`);
+  return value;
+};
+
+const validateDocument = (raw: unknown, path: string, budget: { bytes: number; attachments: number }): DocumentPayload => {
+  if (!isPlainObject(raw)) throw new ApiError('INVALID_REQUEST', `${path} must be an object.`);
+  if (typeof raw.name !== 'string' || !raw.name.trim()) {
+    throw new ApiError('INVALID_REQUEST', `${path}.name must be a non-empty string.`);
+  }
+
+  const doc: DocumentPayload = { name: raw.name.slice(0, 500) };
+  if (raw.text !== undefined) {
+    const text = optionalString(raw.text, `${path}.text`);
+    if (text.length > MAX_TEXT_CHARS) {
+      throw new ApiError('PAYLOAD_TOO_LARGE', `${path}.text exceeds ${MAX_TEXT_CHARS} characters.`);
+    }
+    budget.bytes += text.length;
+    doc.text = text;
+  }
+
+  if (raw.attachments !== undefined) {
+    if (!Array.isArray(raw.attachments)) throw new ApiError('INVALID_REQUEST', `${path}.attachments must be an array.`);
+    budget.attachments += raw.attachments.length;
+    if (budget.attachments > MAX_ATTACHMENTS) {
+      throw new ApiError('PAYLOAD_TOO_LARGE', `Too many pages; the limit is ${MAX_ATTACHMENTS} across all documents.`);
+    }
+    doc.attachments = raw.attachments.map((item: unknown, i: number) => {
+      const at = `${path}.attachments[${i}]`;
+      const { data, mimeType } = isPlainObject(item) ? item : ({} as Record<string, any>);
+      if (typeof data !== 'string' || typeof mimeType !== 'string') {
+        throw new ApiError('INVALID_REQUEST', `${at} needs string "data" and "mimeType".`);
+      }
+      if (!ALLOWED_INLINE_MIME_TYPES.includes(mimeType)) {
+        throw new ApiError('INVALID_REQUEST', `${at}.mimeType "${mimeType}" is not allowed.`);
+      }
+      if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+        throw new ApiError('INVALID_REQUEST', `${at}.data is not valid base64.`);
+      }
+      // Each base64 character is one byte of the request body.
+      const size = data.length;
+      if (size > MAX_INLINE_PART_BYTES) {
+        throw new ApiError('PAYLOAD_TOO_LARGE', `${at} is ${(size / 1048576).toFixed(1)} MB encoded; the per-file limit is ${MAX_INLINE_PART_BYTES / 1048576} MB (about ${(MAX_INLINE_PART_BYTES * 0.75 / 1048576).toFixed(1)} MB before encoding).`);
+      }
+      budget.bytes += size;
+      return { data, mimeType };
+    });
+  }
+
+  if (!doc.text && !doc.attachments?.length) {
+    throw new ApiError('INVALID_REQUEST', `${path} has no readable content.`);
+  }
+  return doc;
+};
+
+const boundedString = (value: unknown, path: string, maxChars: number, budget: { bytes: number }): string => {
+  const text = optionalString(value, path);
+  if (text.length > maxChars) throw new ApiError('PAYLOAD_TOO_LARGE', `${path} exceeds ${maxChars} characters.`);
+  budget.bytes += text.length;
+  return text;
+};
+
+const validateTemplate = (raw: unknown, budget: { bytes: number }): EvaluationRequest['template'] => {
+  if (!isPlainObject(raw)) throw new ApiError('INVALID_REQUEST', "template must be an object.");
+  if (!Array.isArray(raw.questions) || raw.questions.length === 0 || raw.questions.length > MAX_TEMPLATE_QUESTIONS) {
+    throw new ApiError('INVALID_REQUEST', `template.questions must list between 1 and ${MAX_TEMPLATE_QUESTIONS} questions.`);
+  }
+  const questions = raw.questions.map((q: unknown, i: number): TemplateQuestion => {
+    const at = `template.questions[${i}]`;
+    if (!isPlainObject(q) || typeof q.qNo !== 'string' || !q.qNo.trim()) {
+      throw new ApiError('INVALID_REQUEST', `${at}.qNo must be a non-empty string.`);
+    }
+    const maxMarks = Number(q.maxMarks);
+    if (!Number.isFinite(maxMarks) || maxMarks < 0) {
+      throw new ApiError('INVALID_REQUEST', `${at}.maxMarks must be a non-negative number.`);
+    }
+    const keyPoints = Array.isArray(q.keyPoints) ? q.keyPoints.filter((p: unknown): p is string => typeof p === 'string') : [];
+    if (keyPoints.length > MAX_KEY_POINTS) {
+      throw new ApiError('PAYLOAD_TOO_LARGE', `${at}.keyPoints lists more than ${MAX_KEY_POINTS} points.`);
+    }
+    return {
+      qNo: boundedString(q.qNo, `${at}.qNo`, MAX_TEMPLATE_FIELD_CHARS, budget),
+      maxMarks,
+      keyPoints: keyPoints.map((p: string, j: number) => boundedString(p, `${at}.keyPoints[${j}]`, MAX_KEY_POINT_CHARS, budget)),
+    };
+  });
+  return {
+    title: boundedString(raw.title, 'template.title', MAX_TEMPLATE_FIELD_CHARS, budget),
+    topics: boundedString(raw.topics, 'template.topics', MAX_TEMPLATE_FIELD_CHARS, budget),
+    testDate: boundedString(raw.testDate, 'template.testDate', MAX_TEMPLATE_FIELD_CHARS, budget),
+    questions,
+  };
+};
+
+/**
+ * Accepts only structured inputs: documents, mode, an optional test template and
+ * an optional prompt version. The prompt itself is built server-side, so the
+ * browser has no way to alter the grading instructions.
+ */
+export const validateEvaluationRequest = (raw: unknown): EvaluationRequest => {
+  if (!isPlainObject(raw)) throw new ApiError('INVALID_REQUEST', "Request body must be a JSON object.");
+  if (!MODES.includes(raw.mode)) {
+    throw new ApiError('INVALID_REQUEST', `mode must be one of ${MODES.join(', ')}.`);
+  }
+  if (!isPlainObject(raw.documents)) throw new ApiError('INVALID_REQUEST', "documents must be an object.");
+  if (!raw.documents.studentScript) throw new ApiError('INVALID_REQUEST', "documents.studentScript is required.");
+
+  const budget = { bytes: 0, attachments: 0 };
+  const documents = {} as EvaluationRequest['documents'];
+  DOCUMENT_SLOTS.forEach(slot => {
+    const doc = raw.documents[slot];
+    if (doc !== undefined && doc !== null) documents[slot] = validateDocument(doc, `documents.${slot}`, budget);
+  });
+
+  // The template shares the body with the documents, so it counts against the same budget.
+  const template = raw.template === undefined || raw.template === null ? undefined : validateTemplate(raw.template, budget);
+
+  if (budget.bytes > MAX_TOTAL_BYTES) {
+    throw new ApiError('PAYLOAD_TOO_LARGE', `Documents and template total ${(budget.bytes / 1048576).toFixed(1)} MB encoded; the limit is ${MAX_TOTAL_BYTES / 1048576} MB (about ${(MAX_TOTAL_BYTES * 0.75 / 1048576).toFixed(1)} MB of files).`);
+  }
+  if (raw.promptVersion !== undefined && typeof raw.promptVersion !== 'string') {
+    throw new ApiError('INVALID_REQUEST', "promptVersion must be a string.");
+  }
+
+  return {
+    mode: raw.mode,
+    documents,
+    template,
+    promptVersion: raw.promptVersion || undefined,
+  };
+};
@@ -0,0 +1,72 @@
+import { AuthSession, EvaluationReport, ReportStamp, StaffRole, StaffUser } from "../types";
+import { errorFromResponse } from "./evaluationErrors";
+
+const STORAGE_KEY = 'anatomyguru.session';
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  faculty: 'Faculty',
+  reviewer: 'Reviewer',
+  admin: 'Admin',
+};
+
+export const loadSession = (): AuthSession | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const session: AuthSession | null = raw ? JSON.parse(raw) : null;
+    if (!session || new Date(session.expiresAt).getTime() <= Date.now()) return null;
+    return session;
+  } catch (e) {
+    console.error("Failed to read saved session:", e);
+    return null;
+  }
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const login = async (username: string, password: string): Promise<AuthSession> => {
+  const response = await fetch("/.netlify/functions/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+
+  let data: any = null;
+  try {
+    data = await response.json();
+  } catch {
+    // Gateway errors have no JSON body; the status code is mapped below.
+  }
+  if (response.status === 401) throw new Error(data?.error || "Invalid username or password.");
+  if (!response.ok || !data?.success) throw errorFromResponse(response.status, data);
+
+  const session: AuthSession = { token: data.token, user: data.user, expiresAt: data.expiresAt };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  return session;
+};
+
+export const authHeaders = (): Record<string, string> => {
+  const session = loadSession();
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+};
+
+export const canEvaluate = (user: StaffUser) => user.role === 'faculty' || user.role === 'admin';
+export const canApprove = (user: StaffUser) => user.role === 'reviewer' || user.role === 'admin';
+
+const stampFor = (user: StaffUser): ReportStamp => ({
+  username: user.username,
+  name: user.name,
+  role: user.role,
+  at: new Date().toISOString(),
+});
+
+export const stampGenerated = (report: EvaluationReport, user: StaffUser): EvaluationReport => ({
+  ...report,
+  generatedBy: stampFor(user),
+});
+
+export const stampApproved = (report: EvaluationReport, user: StaffUser): EvaluationReport => ({
+  ...report,
+  approvedBy: stampFor(user),
+});
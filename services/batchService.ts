@@ -0,0 +1,51 @@
+import { BatchItem, EvaluationReport } from "../types";
+
+// Words faculty commonly append to note files ("john_doe_notes.jpg") that must be
+// ignored when pairing them with the matching answer sheet ("john_doe.pdf").
+const NOTE_SUFFIXES = ['faculty', 'notes', 'note', 'marks', 'feedback', 'manual'];
+
+export const pairingKey = (fileName: string): string => {
+  const base = fileName.toLowerCase().replace(/\.[^.]+$/, '');
+  return base
+    .split(/[\s_\-.]+/)
+    .filter(token => token && !NOTE_SUFFIXES.includes(token))
+    .join('');
+};
+
+export const createBatchItems = (studentFiles: File[], notesFiles: File[]): BatchItem[] => {
+  const notesByKey = new Map<string, File>();
+  notesFiles.forEach(f => notesByKey.set(pairingKey(f.name), f));
+
+  return studentFiles.map((file, idx) => ({
+    id: `${Date.now()}-${idx}-${file.name}`,
+    studentFile: file,
+    notesFile: notesByKey.get(pairingKey(file.name)) || null,
+    status: 'queued',
+  }));
+};
+
+/**
+ * Evaluates items one at a time so a class of scripts never hits the function
+ * concurrency/timeout limits. Items already marked `done` are skipped, which makes
+ * re-running the queue a retry of whatever failed. An error `isFatal` accepts (e.g.
+ * an expired session) stops the queue and is rethrown, leaving the rest queued.
+ */
+export const runBatchQueue = async (
+  items: BatchItem[],
+  evaluate: (item: BatchItem) => Promise<EvaluationReport>,
+  onUpdate: (id: string, patch: Partial<BatchItem>) => void,
+  isFatal: (err: unknown) => boolean = () => false
+): Promise<void> => {
+  for (const item of items) {
+    if (item.status === 'done') continue;
+    onUpdate(item.id, { status: 'processing', error: undefined });
+    try {
+      const report = await evaluate(item);
+      onUpdate(item.id, { status: 'done', report });
+    } catch (err: any) {
+      console.error(`Batch item failed: ${item.studentFile.name}`, err);
+      onUpdate(item.id, { status: 'failed', error: err.message || "Evaluation failed." });
+      if (isFatal(err)) throw err;
+    }
+  }
+};
@@ -0,0 +1,197 @@
+import { AuditRecord, EvaluationReport } from "../types";
+import { getQuestionStatus, parseBoldSegments } from "./reportFormat";
+import { sumMarks, sumMaxMarks } from "./scoringIntegrity";
+import { normalizeQNo } from "./templateService";
+import { CsvCell } from "./csv";
+
+export interface TestGroup {
+  key: string;
+  testTitle: string;
+  testDate: string;
+  records: AuditRecord[];
+}
+
+export interface QuestionStats {
+  qNo: string;
+  maxMarks: number;
+  attempts: number;
+  mean: number;
+  median: number;
+  unattemptedPct: number;
+}
+
+export interface HistogramBucket {
+  label: string;
+  count: number;
+}
+
+export interface Weakness {
+  label: string;
+  students: number;
+  section: 'contentAccuracy' | 'presentationDiagrams';
+}
+
+export interface RankedStudent {
+  rank: number;
+  studentName: string;
+  score: number;
+  maxScore: number;
+  percentage: number;
+}
+
+export interface ClassAnalytics {
+  studentCount: number;
+  questions: QuestionStats[];
+  histogram: HistogramBucket[];
+  weaknesses: Weakness[];
+  ranking: RankedStudent[];
+}
+
+const WEAKNESS_SECTIONS: Weakness['section'][] = ['contentAccuracy', 'presentationDiagrams'];
+const HISTOGRAM_BUCKETS = 10;
+const TOP_WEAKNESSES = 10;
+
+export const testKey = (report: EvaluationReport) =>
+  `${(report.testTitle || 'Untitled test').trim().toLowerCase()}|${(report.testDate || '').trim()}`;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Groups saved audits by test (title + date). Only the newest audit per student
+ * is kept, so re-runs and duplicates (which keep the student's name) don't count a
+ * student twice.
+ */
+export const groupAuditsByTest = (records: AuditRecord[]): TestGroup[] => {
+  const groups = new Map<string, TestGroup>();
+  const seen = new Set<string>();
+  [...records]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .forEach(record => {
+      const key = testKey(record.report);
+      const studentKey = `${key}|${(record.report.studentName || record.id).trim().toLowerCase()}`;
+      if (seen.has(studentKey)) return;
+      seen.add(studentKey);
+      if (!groups.has(key)) {
+        groups.set(key, { key, testTitle: record.report.testTitle || 'Untitled test', testDate: record.report.testDate || '', records: [] });
+      }
+      groups.get(key)!.records.push(record);
+    });
+  return Array.from(groups.values()).sort((a, b) => b.records.length - a.records.length);
+};
+
+// Bold terms are the model's own key phrases; points without any are matched on their wording.
+export const feedbackTerms = (point: string): string[] => {
+  const bold = parseBoldSegments(point).filter(seg => seg.bold).map(seg => seg.text.trim().toLowerCase());
+  if (bold.length > 0) return bold;
+  const plain = point.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+  return plain ? [plain] : [];
+};
+
+const percentage = (score: number, max: number) => (max > 0 ? (score / max) * 100 : 0);
+
+export const computeClassAnalytics = (reports: EvaluationReport[]): ClassAnalytics => {
+  const byQNo = new Map<string, { qNo: string; maxMarks: number; marks: number[]; unattempted: number; attempts: number }>();
+  reports.forEach(report => {
+    (report.questions || []).forEach(q => {
+      const key = normalizeQNo(q.qNo);
+      if (!byQNo.has(key)) byQNo.set(key, { qNo: q.qNo, maxMarks: 0, marks: [], unattempted: 0, attempts: 0 });
+      const entry = byQNo.get(key)!;
+      entry.maxMarks = Math.max(entry.maxMarks, Number(q.maxMarks) || 0);
+      entry.marks.push(Number(q.marks) || 0);
+      entry.attempts++;
+      if (getQuestionStatus(q) === 'unattempted') entry.unattempted++;
+    });
+  });
+
+  const questions: QuestionStats[] = Array.from(byQNo.values()).map(entry => ({
+    qNo: entry.qNo,
+    maxMarks: entry.maxMarks,
+    attempts: entry.attempts,
+    mean: round(mean(entry.marks)),
+    median: round(median(entry.marks)),
+    unattemptedPct: round((entry.unattempted / entry.attempts) * 100),
+  }));
+
+  const scored = reports.map(report => {
+    const score = sumMarks(report);
+    const maxScore = Number(report.maxScore) || sumMaxMarks(report);
+    return { studentName: report.studentName || 'Unknown Student', score, maxScore, percentage: round(percentage(score, maxScore)) };
+  });
+
+  const histogram: HistogramBucket[] = Array.from({ length: HISTOGRAM_BUCKETS }, (_, i) => {
+    const low = i * (100 / HISTOGRAM_BUCKETS);
+    const high = low + 100 / HISTOGRAM_BUCKETS;
+    return { label: `${low}–${high}%`, count: 0 };
+  });
+  scored.forEach(s => {
+    const idx = Math.min(Math.floor(s.percentage / (100 / HISTOGRAM_BUCKETS)), HISTOGRAM_BUCKETS - 1);
+    histogram[Math.max(idx, 0)].count++;
+  });
+
+  const weaknessCounts = new Map<string, Weakness>();
+  reports.forEach(report => {
+    // Counted once per student, however many times a report repeats the same point.
+    const mentioned = new Set<string>();
+    WEAKNESS_SECTIONS.forEach(section => {
+      (report.generalFeedback?.[section] || []).forEach(point => {
+        feedbackTerms(point).forEach(label => {
+          const key = `${section}|${label}`;
+          if (mentioned.has(key)) return;
+          mentioned.add(key);
+          const existing = weaknessCounts.get(key);
+          if (existing) existing.students++;
+          else weaknessCounts.set(key, { label, students: 1, section });
+        });
+      });
+    });
+  });
+  const weaknesses = Array.from(weaknessCounts.values())
+    .filter(w => reports.length < 2 || w.students > 1)
+    .sort((a, b) => b.students - a.students || a.label.localeCompare(b.label))
+    .slice(0, TOP_WEAKNESSES);
+
+  // Competition ranking: tied percentages share a rank and the next rank is skipped.
+  const sorted = [...scored].sort((a, b) => b.percentage - a.percentage || a.studentName.localeCompare(b.studentName));
+  const ranking: RankedStudent[] = [];
+  sorted.forEach((s, i) => {
+    const tied = i > 0 && sorted[i - 1].percentage === s.percentage;
+    ranking.push({ ...s, rank: tied ? ranking[i - 1].rank : i + 1 });
+  });
+
+  return { studentCount: reports.length, questions, histogram, weaknesses, ranking };
+};
+
+const SECTION_LABELS: Record<Weakness['section'], string> = {
+  contentAccuracy: 'Content Accuracy',
+  presentationDiagrams: 'Presentation & Diagrams',
+};
+
+export const weaknessSectionLabel = (section: Weakness['section']) => SECTION_LABELS[section];
+
+// One CSV with a titled block per table, separated by blank rows.
+export const analyticsToCsvRows = (group: TestGroup, analytics: ClassAnalytics): CsvCell[][] => [
+  ['Test', group.testTitle],
+  ['Date', group.testDate],
+  ['Students', analytics.studentCount],
+  [],
+  ['Question', 'Max Marks', 'Mean', 'Median', 'Unattempted %', 'Reports'],
+  ...analytics.questions.map(q => [q.qNo, q.maxMarks, q.mean, q.median, q.unattemptedPct, q.attempts]),
+  [],
+  ['Score Band', 'Students'],
+  ...analytics.histogram.map(b => [b.label, b.count]),
+  [],
+  ['Weakness', 'Section', 'Students'],
+  ...analytics.weaknesses.map(w => [w.label, SECTION_LABELS[w.section], w.students]),
+  [],
+  ['Rank', 'Student', 'Score', 'Max Score', 'Percentage'],
+  ...analytics.ranking.map(r => [r.rank, r.studentName, r.score, r.maxScore, r.percentage]),
+];
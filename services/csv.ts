@@ -0,0 +1,69 @@
+export type CsvCell = string | number | null | undefined;
+
+// Text starting with these is run as a formula by Excel and similar apps.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// RFC 4180 quoting: fields containing commas, quotes or line breaks are wrapped in quotes.
+// Names and titles come from OCR and imported sheets, so formula-like text gets a leading
+// apostrophe; numbers (including negatives) are written as they are.
+const escapeCell = (cell: CsvCell): string => {
+  if (cell === null || cell === undefined) return '';
+  const text = typeof cell === 'string' && FORMULA_PREFIX.test(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvCell[][]): string =>
+  rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+// Handles quoted fields with embedded commas, quotes and newlines; blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (filename: string, rows: CsvCell[][]) => {
+  // The BOM makes Excel open UTF-8 names (e.g. accented student names) correctly.
+  downloadBlob(filename, new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' }));
+};
@@ -0,0 +1,129 @@
+import { ApiErrorCode } from "../types";
+
+interface ErrorPolicy {
+  message: string;
+  // Extra attempts allowed for this code; each waits `backoffMs * attempt` first.
+  retries: number;
+  backoffMs: number;
+}
+
+const ERROR_POLICIES: Record<ApiErrorCode, ErrorPolicy> = {
+  INVALID_REQUEST: {
+    message: "The audit request was rejected as malformed. Please re-upload the documents and try again.",
+    retries: 0,
+    backoffMs: 0,
+  },
+  PAYLOAD_TOO_LARGE: {
+    message: "The uploaded documents are too large to audit in one go. Please use smaller or compressed scans.",
+    retries: 0,
+    backoffMs: 0,
+  },
+  UPSTREAM_RATE_LIMITED: {
+    message: "The AI service is busy or the usage quota has been reached. Please wait a minute and try again.",
+    retries: 2,
+    backoffMs: 15000,
+  },
+  UPSTREAM_SAFETY_BLOCK: {
+    message: "The AI service declined to evaluate these documents. Please check the uploads are the correct answer sheets.",
+    retries: 0,
+    backoffMs: 0,
+  },
+  UPSTREAM_ERROR: {
+    message: "The AI service failed to respond. Please try again shortly.",
+    retries: 1,
+    backoffMs: 5000,
+  },
+  INVALID_OUTPUT: {
+    message: "The AI returned an incomplete report even after correction attempts. Please try again.",
+    retries: 0,
+    backoffMs: 0,
+  },
+  MISCONFIGURED: {
+    message: "The audit service is not configured correctly. Please contact the administrator.",
+    retries: 0,
+    backoffMs: 0,
+  },
+  UNAUTHENTICATED: {
+    message: "Your session has expired. Please sign in again.",
+    retries: 0,
+    backoffMs: 0,
+  },
+  FORBIDDEN: {
+    message: "Your staff role is not allowed to run audits. Please ask an administrator for access.",
+    retries: 0,
+    backoffMs: 0,
+  },
+  ORIGIN_NOT_ALLOWED: {
+    message: "This site is not allowed to use the audit service. Please open the app from its official address.",
+    retries: 0,
+    backoffMs: 0,
+  },
+  RATE_LIMITED: {
+    message: "Too many audits have been submitted from this connection. Please wait a few minutes and try again.",
+    retries: 1,
+    backoffMs: 60000,
+  },
+  NOT_FOUND: {
+    message: "The audit job could not be found on the server. Please run the audit again.",
+    retries: 0,
+    backoffMs: 0,
+  },
+  INTERNAL: {
+    message: "An unexpected server error occurred during the audit. Please try again.",
+    retries: 0,
+    backoffMs: 0,
+  },
+};
+
+export class EvaluationError extends Error {
+  code: ApiErrorCode;
+  detail?: string;
+
+  constructor(code: ApiErrorCode, detail?: string) {
+    super(ERROR_POLICIES[code].message);
+    this.name = 'EvaluationError';
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+const CODE_BY_STATUS: Record<number, ApiErrorCode> = {
+  400: 'INVALID_REQUEST',
+  401: 'UNAUTHENTICATED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  413: 'PAYLOAD_TOO_LARGE',
+  422: 'UPSTREAM_SAFETY_BLOCK',
+  429: 'RATE_LIMITED',
+  502: 'UPSTREAM_ERROR',
+  503: 'UPSTREAM_ERROR',
+  504: 'UPSTREAM_ERROR',
+};
+
+const isApiErrorCode = (value: unknown): value is ApiErrorCode =>
+  typeof value === 'string' && value in ERROR_POLICIES;
+
+// Gateway failures (e.g. a Netlify 502 HTML page) carry no payload, so the HTTP status is the fallback.
+export const errorFromResponse = (status: number, payload: any): EvaluationError => {
+  const code = isApiErrorCode(payload?.code) ? payload.code : CODE_BY_STATUS[status] || 'INTERNAL';
+  return new EvaluationError(code, payload?.error);
+};
+
+export const errorFromJob = (job: { code?: unknown; error?: string }): EvaluationError =>
+  new EvaluationError(isApiErrorCode(job.code) ? job.code : 'INTERNAL', job.error);
+
+export const retryDelayFor = (error: unknown, attempt: number): number | null => {
+  if (!(error instanceof EvaluationError)) return null;
+  const policy = ERROR_POLICIES[error.code];
+  return attempt < policy.retries ? policy.backoffMs * (attempt + 1) : null;
+};
+
+// Matches both our own cancellation error and the DOMException fetch throws on abort.
+export const createAbortError = (): Error => {
+  const error = new Error("Audit cancelled.");
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
@@ -0,0 +1,140 @@
+import { FileData, PageImage } from "../types";
+// @ts-ignore
+import mammoth from 'mammoth';
+import * as pdfjsLib from 'pdfjs-dist';
+import { compressImageFile, rasterisePdf } from "./pageImages";
+
+// --- PDF.js Setup ---
+const pdfjs: any = (pdfjsLib as any).GlobalWorkerOptions
+  ? pdfjsLib
+  : (pdfjsLib as any).default || pdfjsLib;
+
+if (pdfjs && pdfjs.GlobalWorkerOptions) {
+  pdfjs.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js`;
+}
+
+// Below this much extracted text a PDF is treated as scanned and sent as page images.
+const MIN_PDF_TEXT_LENGTH = 150;
+
+const loadPdf = async (file: File): Promise<any> => {
+  if (!pdfjs || !pdfjs.getDocument) throw new Error("PDF parser not initialized.");
+  const arrayBuffer = await file.arrayBuffer();
+  return pdfjs.getDocument({ data: arrayBuffer }).promise;
+};
+
+// `contentLength` counts only the page text, so the `[Pn]` markers of a long scanned
+// PDF can't pass for a text layer.
+const extractTextFromPDF = async (pdf: any): Promise<{ text: string; contentLength: number }> => {
+  let fullText = '';
+  let contentLength = 0;
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    const pageText = textContent.items.map((item: any) => item.str).join(' ');
+    contentLength += pageText.trim().length;
+    fullText += `[P${i}] ${pageText}\n`;
+  }
+  return { text: fullText, contentLength };
+};
+
+export const processFile = async (
+  file: File,
+  onStep: (step: string) => void = () => {}
+): Promise<FileData> => {
+  const fileName = file.name.toLowerCase();
+  const isDocx = fileName.endsWith('.docx') || file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+  const isPdf = fileName.endsWith('.pdf') || file.type === 'application/pdf';
+  if (isDocx) {
+    onStep(`Parsing ${file.name}...`);
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+      if (arrayBuffer.byteLength === 0) throw new Error("File is empty.");
+      const result = await mammoth.extractRawText({ arrayBuffer });
+      return { text: result.value, name: file.name, isDocx: true };
+    } catch (e: any) {
+      console.error("Mammoth error:", e);
+      throw new Error(`Failed to parse DOCX: ${e.message || 'Unknown error'}`);
+    }
+  }
+
+  if (isPdf) {
+    onStep(`Extracting PDF: ${file.name}`);
+    let rendered: Awaited<ReturnType<typeof rasterisePdf>> | null = null;
+    try {
+      const pdf = await loadPdf(file);
+      const { text, contentLength } = await extractTextFromPDF(pdf);
+      if (contentLength > MIN_PDF_TEXT_LENGTH) return { text, name: file.name, isDocx: false };
+      rendered = await rasterisePdf(pdf, onStep);
+    } catch (e) {
+      console.warn("Fallback to sending the original PDF", e);
+    }
+    // Checked outside the try so it reaches the user instead of triggering the fallback.
+    if (rendered && rendered.pages.length === 0) throw new Error(`${file.name} contains only blank pages.`);
+    if (rendered) return { pages: rendered.pages, droppedBlankPages: rendered.droppedBlankPages, name: file.name, isDocx: false };
+  }
+
+  if (file.type.startsWith('image/')) {
+    onStep(`Compressing ${file.name}...`);
+    try {
+      return { pages: [await compressImageFile(file)], name: file.name, isDocx: false };
+    } catch (e) {
+      // Formats the browser can't decode (e.g. HEIC on most desktops) go up unchanged.
+      console.warn("Fallback to sending the original image", e);
+    }
+  }
+
+  onStep(`Processing ${file.name}...`);
+  try {
+    const base64 = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        if (typeof reader.result === 'string') {
+          resolve(reader.result.split(',')[1]);
+        } else {
+          reject(new Error("File conversion failed."));
+        }
+      };
+      reader.onerror = () => reject(new Error("Failed to read file."));
+      reader.readAsDataURL(file);
+    });
+    return { base64, mimeType: file.type, name: file.name, isDocx: false };
+  } catch (e: any) {
+    throw new Error(`File Error: ${e.message}`);
+  }
+};
+
+/**
+ * Processes every file for one document slot and merges them into a single
+ * `FileData`: extracted text is concatenated with per-file headers and all page
+ * images are combined, in file order, into one page set.
+ */
+export const processFiles = async (
+  files: File[],
+  onStep: (step: string) => void = () => {}
+): Promise<FileData> => {
+  if (files.length === 0) throw new Error("No files selected.");
+  if (files.length === 1) return processFile(files[0], onStep);
+
+  const results: FileData[] = [];
+  for (const file of files) {
+    results.push(await processFile(file, onStep));
+  }
+
+  const texts = results.filter(r => r.text).map(r => `[FILE: ${r.name}]\n${r.text}`);
+  const pages: PageImage[] = results.flatMap(r => {
+    if (r.pages) return r.pages.map(page => ({ ...page, sourceName: r.name }));
+    // Files the browser couldn't render travel as a single opaque "page".
+    if (r.base64 && r.mimeType) {
+      return [{ id: `page-${r.name}`, base64: r.base64, mimeType: r.mimeType, width: 0, height: 0, sourcePage: 1, sourceName: r.name }];
+    }
+    return [];
+  });
+
+  return {
+    name: files.map(f => f.name).join(', '),
+    text: texts.length > 0 ? texts.join('\n\n') : undefined,
+    pages: pages.length > 0 ? pages : undefined,
+    droppedBlankPages: results.reduce((sum, r) => sum + (r.droppedBlankPages || 0), 0),
+    isDocx: results.every(r => r.isDocx),
+  };
+};
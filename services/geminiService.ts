@@ -1,103 +1,208 @@
-import { EvaluationReport, FileData } from "../types";
+import { AuditProgress, DocumentPayload, EvaluationDocuments, EvaluationMode, EvaluationReport, EvaluationRequest, FileData, PromptComparisonResult, PromptVersionInfo, TestTemplate } from "../types";
+import { applyTemplate } from "./templateService";
+import { formatIssues, validateReport } from "./reportValidator";
+import { authHeaders } from "./authService";
+import { EvaluationError, createAbortError, errorFromJob, errorFromResponse, isAbortError, retryDelayFor } from "./evaluationErrors";
+import { parsePartialReport } from "./partialReport";
 
-export type EvaluationMode = 'with-manual' | 'without-manual';
+// Documents travel as structured payloads; the evaluate function owns the prompt.
+const toPayload = (doc: FileData | null): DocumentPayload | undefined => {
+  if (!doc) return undefined;
+  const payload: DocumentPayload = { name: doc.name };
+  if (doc.text) payload.text = doc.text;
+  if (doc.pages && doc.pages.length > 0) {
+    payload.attachments = doc.pages.map(page => ({ data: page.base64, mimeType: page.mimeType }));
+  } else if (!doc.text && doc.base64 && doc.mimeType) {
+    payload.attachments = [{ data: doc.base64, mimeType: doc.mimeType }];
+  }
+  return payload;
+};
 
-export const generateStructuredFeedback = async (
-  sourceDoc: FileData,
-  dirtyFeedbackDoc: FileData | null,
-  mode: EvaluationMode = 'with-manual'
-): Promise<EvaluationReport> => {
+const POLL_INTERVAL_MS = 2000;
+// Background functions run for up to 15 minutes; the extra minute covers queueing.
+const MAX_POLL_DURATION_MS = 16 * 60 * 1000;
+
+export interface EvaluationOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: AuditProgress) => void;
+  // Admin-only: pins a server prompt version instead of the configured default.
+  promptVersion?: string;
+}
+
+interface ModelOutput {
+  output: string;
+  promptVersion: string;
+  model?: string;
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const statusUrl = (jobId: string) => `/.netlify/functions/evaluate-status?jobId=${encodeURIComponent(jobId)}`;
+
+// Best effort: tells the background worker to stop so it doesn't keep spending quota.
+const cancelJob = (jobId: string) => {
+  fetch(statusUrl(jobId), { method: "DELETE", headers: authHeaders() })
+    .catch(err => console.warn("Failed to cancel audit job:", err));
+};
+
+const readJson = async (response: Response): Promise<any> => {
   try {
-    const systemInstructions = `
-      You are the "Anatomy Guru Master Evaluator". Create a medical audit report.
-      SOURCE DOC: Question Paper, Answer Key, and Student Answers.
-      MODE: ${mode}.
-      ${mode === 'with-manual' ? 'Prioritize Answer Key for facts, Faculty Notes for marks. Flag factual contradictions.' : 'Evaluate ALL questions in QP against Key.'}
-      
-      OUTPUT: Return strictly valid JSON.
-      JSON Structure:
-      {
-        "studentName": string,
-        "testTitle": string,
-        "testTopics": string,
-        "testDate": string,
-        "totalScore": number,
-        "maxScore": number,
-        "questions": [
-          {
-            "qNo": string,
-            "feedbackPoints": string[],
-            "marks": number,
-            "maxMarks": number,
-            "isCorrect": boolean,
-            "isFlagged": boolean
-          }
-        ],
-        "generalFeedback": {
-          "overallPerformance": string[],
-          "mcqs": string[],
-          "contentAccuracy": string[],
-          "completenessOfAnswers": string[],
-          "presentationDiagrams": string[],
-          "investigations": string[],
-          "attemptingQuestions": string[],
-          "actionPoints": string[]
-        }
-      }
-    `;
+    return await response.json();
+  } catch {
+    return null;
+  }
+};
 
-    const promptParts: any[] = [{ text: systemInstructions }];
+// The evaluate function only queues the job; the model runs in a background function
+// and the result is polled from evaluate-status, so long audits are not cut off.
+const requestModelOutput = async (request: EvaluationRequest, { signal, onProgress }: EvaluationOptions = {}): Promise<ModelOutput> => {
+  // Use absolute-style path for fetch to ensure it hits the Netlify function endpoint correctly
+  const response = await fetch("/.netlify/functions/evaluate", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...authHeaders(),
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
 
-    // Add source document
-    if (sourceDoc.text) {
-      promptParts.push({ text: `Student Paper Text: ${sourceDoc.text}` });
-    } else if (sourceDoc.base64 && sourceDoc.mimeType) {
-      promptParts.push({ inlineData: { data: sourceDoc.base64, mimeType: sourceDoc.mimeType } });
-    }
+  const data = await readJson(response);
+  if (!response.ok || !data?.success || !data.jobId) {
+    throw errorFromResponse(response.status, data);
+  }
 
-    // Add faculty notes
-    if (mode === 'with-manual' && dirtyFeedbackDoc) {
-      if (dirtyFeedbackDoc.text) {
-        promptParts.push({ text: `Faculty Notes Text: ${dirtyFeedbackDoc.text}` });
-      } else if (dirtyFeedbackDoc.base64 && dirtyFeedbackDoc.mimeType) {
-        promptParts.push({ inlineData: { data: dirtyFeedbackDoc.base64, mimeType: dirtyFeedbackDoc.mimeType } });
+  const jobId: string = data.jobId;
+  const deadline = Date.now() + MAX_POLL_DURATION_MS;
+  try {
+    while (Date.now() < deadline) {
+      await wait(POLL_INTERVAL_MS, signal);
+
+      const statusResponse = await fetch(statusUrl(jobId), { headers: authHeaders(), signal });
+      // Transient gateway errors while polling are retried until the deadline.
+      if (statusResponse.status === 502 || statusResponse.status === 504) continue;
+
+      const status = await readJson(statusResponse);
+      if (!statusResponse.ok || !status?.success) {
+        throw errorFromResponse(statusResponse.status, status);
       }
+      if (status.job.status === 'done') return { output: status.job.output, promptVersion: status.job.promptVersion, model: status.job.model };
+      if (status.job.status === 'failed') throw errorFromJob(status.job);
+      if (status.job.partialOutput) onProgress?.(parsePartialReport(status.job.partialOutput));
     }
+  } catch (error) {
+    if (isAbortError(error)) cancelJob(jobId);
+    throw error;
+  }
 
-    promptParts.push({ text: "Based on the provided medical evaluation documents, generate the comprehensive evaluation report JSON." });
+  // Nobody will read the result now, so stop the worker from spending more on it.
+  cancelJob(jobId);
+  throw new Error("Server timeout: The audit is taking longer than expected. Please try again with smaller documents.");
+};
 
-    // Use absolute-style path for fetch to ensure it hits the Netlify function endpoint correctly
-    const response = await fetch("/.netlify/functions/evaluate", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        prompt: promptParts
-      }),
-    });
+// Retries only the failures whose policy allows it (rate limits, upstream outages).
+const requestWithRetry = async (request: EvaluationRequest, options: EvaluationOptions): Promise<ModelOutput> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestModelOutput(request, options);
+    } catch (error) {
+      const delay = retryDelayFor(error, attempt);
+      if (delay === null) throw error;
+      console.warn(`Audit request failed, retrying in ${delay}ms:`, error);
+      await wait(delay, options.signal);
+    }
+  }
+};
 
-    const data = await response.json();
+export const generateStructuredFeedback = async (
+  documents: EvaluationDocuments,
+  mode: EvaluationMode = 'with-manual',
+  template: TestTemplate | null = null,
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> => {
+  try {
+    const { questionPaper, answerKey, studentScript, facultyNotes } = documents;
+    const request: EvaluationRequest = {
+      mode,
+      documents: {
+        questionPaper: toPayload(questionPaper),
+        answerKey: toPayload(answerKey),
+        studentScript: toPayload(studentScript)!,
+        facultyNotes: mode === 'with-manual' ? toPayload(facultyNotes) : undefined,
+      },
+      template: template ? { title: template.title, topics: template.topics, testDate: template.testDate, questions: template.questions } : undefined,
+      promptVersion: options.promptVersion,
+    };
 
-    if (!response.ok || !data.success) {
-      throw new Error(data.error || "Analysis failed on server.");
-    }
+    const { output, promptVersion, model } = await requestWithRetry(request, {
+      ...options,
+      // A template fixes the question count even before the model announces it.
+      onProgress: options.onProgress && (progress => options.onProgress!({
+        ...progress,
+        expectedCount: template ? template.questions.length : progress.expectedCount,
+      })),
+    });
 
-    let reportData: EvaluationReport;
+    // The function has already validated (and if needed repaired) the report; this
+    // re-check only guards against a server/client version mismatch.
+    let parsed: unknown;
     try {
-      let cleanOutput = data.output.trim();
-      if (cleanOutput.startsWith('```')) {
-        cleanOutput = cleanOutput.replace(/^```(json)?\n?/, '').replace(/\n?```$/, '');
-      }
-      reportData = JSON.parse(cleanOutput);
-    } catch (parseError) {
-      console.error("Failed to parse AI output as JSON:", data.output);
-      throw new Error("AI returned an invalid report format. Please try again.");
+      parsed = JSON.parse(output);
+    } catch {
+      console.error("Failed to parse AI output as JSON:", output);
+      throw new Error("AI returned a report that is not valid JSON.");
     }
-
-    return reportData;
+    const { report, issues } = validateReport(parsed);
+    if (issues.length > 0) {
+      throw new Error(`AI returned an invalid report format:\n${formatIssues(issues)}`);
+    }
+    const stamped = { ...report, promptVersion, model };
+    return template ? applyTemplate(stamped, template) : stamped;
   } catch (error: any) {
     console.error("Gemini Service Error:", error);
+    if (error instanceof EvaluationError || isAbortError(error)) throw error;
     throw new Error(error.message || "An unexpected error occurred during processing.");
   }
-};
\ No newline at end of file
+};
+
+export const fetchPromptVersions = async (): Promise<PromptVersionInfo[]> => {
+  const response = await fetch("/.netlify/functions/prompt-versions", { headers: authHeaders() });
+  const data = await readJson(response);
+  if (!response.ok || !data?.success) throw errorFromResponse(response.status, data);
+  return data.versions;
+};
+
+/**
+ * Runs the same inputs through several prompt versions side by side, so a new
+ * prompt can be judged against the current one before it becomes the default.
+ * Each version settles on its own, so one failure doesn't discard the others.
+ */
+export const comparePromptVersions = async (
+  documents: EvaluationDocuments,
+  mode: EvaluationMode,
+  template: TestTemplate | null,
+  versions: string[],
+  signal?: AbortSignal
+): Promise<PromptComparisonResult[]> => {
+  const settled = await Promise.allSettled(
+    versions.map(promptVersion => generateStructuredFeedback(documents, mode, template, { signal, promptVersion }))
+  );
+  // An expired session fails every version alike; rethrow it so the caller can sign out.
+  const expired = settled.find((s): s is PromiseRejectedResult =>
+    s.status === 'rejected' && s.reason instanceof EvaluationError && s.reason.code === 'UNAUTHENTICATED');
+  if (expired) throw expired.reason;
+  return settled.map((s, i) => (s.status === 'fulfilled'
+    ? { version: versions[i], report: s.value, error: null }
+    : { version: versions[i], report: null, error: s.reason?.message || "Evaluation failed." }));
+};
@@ -0,0 +1,89 @@
+import { AuditRecord, AuditSourceFiles, EvaluationMode, EvaluationReport } from "../types";
+
+const DB_NAME = 'anatomyguru';
+const DB_VERSION = 1;
+const STORE = 'audits';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new Error("Failed to open local audit history."));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T,>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = op(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error("Audit history operation failed."));
+  });
+};
+
+export const listAudits = async (): Promise<AuditRecord[]> => {
+  const records = await runRequest<AuditRecord[]>('readonly', store => store.getAll());
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const putAudit = async (record: AuditRecord): Promise<AuditRecord> => {
+  await runRequest('readwrite', store => store.put(record));
+  return record;
+};
+
+export const deleteAudit = (id: string): Promise<undefined> =>
+  runRequest('readwrite', store => store.delete(id));
+
+export const createAudit = (
+  report: EvaluationReport,
+  mode: EvaluationMode,
+  sourceFiles: AuditSourceFiles,
+  duplicateOf?: string
+): Promise<AuditRecord> => {
+  const now = new Date().toISOString();
+  return putAudit({
+    id: `audit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    report,
+    mode,
+    sourceFiles,
+    ...(duplicateOf ? { duplicateOf } : {}),
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+// The copy keeps the student's name so analytics still treat it as the same student.
+export const duplicateAudit = (record: AuditRecord): Promise<AuditRecord> =>
+  createAudit(record.report, record.mode, record.sourceFiles, record.duplicateOf ?? record.id);
+
+export const updateAuditReport = async (id: string, report: EvaluationReport): Promise<void> => {
+  const existing = await runRequest<AuditRecord | undefined>('readonly', store => store.get(id));
+  if (!existing) return;
+  await putAudit({ ...existing, report, updatedAt: new Date().toISOString() });
+};
+
+export const matchesAuditQuery = (record: AuditRecord, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [
+    record.report.studentName,
+    record.report.testTitle,
+    record.report.testDate,
+    record.createdAt.slice(0, 10),
+    new Date(record.createdAt).toLocaleDateString(),
+  ].some(field => (field || '').toLowerCase().includes(needle));
+};
@@ -0,0 +1,142 @@
+import { scaleFor } from "./pageImages";
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface CropMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Per-photo adjustments; crop margins are fractions (0–0.45) of the rotated image.
+export interface CaptureEdits {
+  rotation: Rotation;
+  skew: number;
+  crop: CropMargins;
+  enhance: boolean;
+}
+
+export const DEFAULT_EDITS: CaptureEdits = {
+  rotation: 0,
+  skew: 0,
+  crop: { top: 0, right: 0, bottom: 0, left: 0 },
+  enhance: true,
+};
+
+export const MAX_SKEW_DEGREES = 15;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const context = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  return ctx;
+};
+
+// Copies a canvas/video frame, shrinking it so its long edge is at most `maxDimension`.
+export const snapshot = (source: HTMLVideoElement | HTMLCanvasElement | ImageBitmap, width: number, height: number, maxDimension?: number) => {
+  const scale = maxDimension ? Math.min(1, maxDimension / Math.max(width, height)) : scaleFor(width, height);
+  const canvas = createCanvas(width * scale, height * scale);
+  context(canvas).drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Rotation by a quarter turn plus a small deskew angle, filled white so the
+// corners exposed by deskewing read as paper rather than ink.
+const rotate = (source: HTMLCanvasElement, degrees: number) => {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const canvas = createCanvas(source.width * cos + source.height * sin, source.width * sin + source.height * cos);
+  const ctx = context(canvas);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+const crop = (source: HTMLCanvasElement, margins: CropMargins) => {
+  const x = source.width * margins.left;
+  const y = source.height * margins.top;
+  const width = source.width * (1 - margins.left - margins.right);
+  const height = source.height * (1 - margins.top - margins.bottom);
+  const canvas = createCanvas(width, height);
+  context(canvas).drawImage(source, x, y, width, height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Converts to greyscale and stretches the 2nd–98th luminance percentiles to the
+ * full range, which lifts pencil handwriting off grey, unevenly lit paper.
+ */
+const enhanceContrast = (canvas: HTMLCanvasElement) => {
+  const ctx = context(canvas);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    const lum = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    data[i] = lum;
+    histogram[lum]++;
+  }
+
+  const total = data.length / 4;
+  let low = 0;
+  let high = 255;
+  for (let sum = 0; low < 255 && (sum += histogram[low]) < total * 0.02; low++);
+  for (let sum = 0; high > 0 && (sum += histogram[high]) < total * 0.02; high--);
+  const range = Math.max(1, high - low);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const value = Math.max(0, Math.min(255, ((data[i] - low) * 255) / range));
+    data[i] = data[i + 1] = data[i + 2] = value;
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+export const applyEdits = (source: HTMLCanvasElement, edits: CaptureEdits): HTMLCanvasElement => {
+  let canvas = rotate(source, edits.rotation + edits.skew);
+  canvas = crop(canvas, edits.crop);
+  return edits.enhance ? enhanceContrast(canvas) : canvas;
+};
+
+/**
+ * Estimates the skew of a photographed page by rotating a small binarised copy
+ * through ±MAX_SKEW_DEGREES and keeping the angle whose row-ink profile is most
+ * peaked, i.e. where the lines of handwriting run horizontally.
+ */
+export const detectSkew = (source: HTMLCanvasElement, rotation: Rotation): number => {
+  const thumb = rotate(snapshot(source, source.width, source.height, 320), rotation);
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += 0.5) {
+    const rotated = rotate(thumb, angle);
+    const { data, width, height } = context(rotated).getImageData(0, 0, rotated.width, rotated.height);
+    let score = 0;
+    let previous = 0;
+    for (let y = 0; y < height; y++) {
+      let ink = 0;
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        if (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2] < 128) ink++;
+      }
+      score += (ink - previous) ** 2;
+      previous = ink;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+};
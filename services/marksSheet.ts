@@ -0,0 +1,175 @@
+import { EvaluationReport, FileData } from "../types";
+import { CsvCell, downloadBlob, downloadCsv, parseCsv } from "./csv";
+import { buildXlsx } from "./xlsx";
+import { normalizeQNo } from "./templateService";
+import { pairingKey } from "./batchService";
+import { sumMarks, sumMaxMarks } from "./scoringIntegrity";
+
+/**
+ * One row per report with a column per question. Question columns are the union
+ * across all reports, in first-seen order, so a class exports as one sheet.
+ */
+export const marksRows = (reports: EvaluationReport[]): CsvCell[][] => {
+  const columns = new Map<string, { qNo: string; maxMarks: number }>();
+  reports.forEach(r => (r.questions || []).forEach(q => {
+    const key = normalizeQNo(q.qNo);
+    if (!columns.has(key)) columns.set(key, { qNo: q.qNo, maxMarks: Number(q.maxMarks) || 0 });
+  }));
+
+  const header: CsvCell[] = [
+    'Student ID', 'Student Name', 'Test', 'Test Date',
+    ...Array.from(columns.values()).map(c => `Q${c.qNo.replace(/^q/i, '')} (/${c.maxMarks})`),
+    'Total', 'Max', 'Flagged Questions', 'Approved By',
+  ];
+
+  const body = reports.map(r => {
+    const byQNo = new Map((r.questions || []).map(q => [normalizeQNo(q.qNo), q]));
+    return [
+      r.studentId || '',
+      r.studentName || 'Unknown Student',
+      r.testTitle || '',
+      r.testDate || '',
+      ...Array.from(columns.keys()).map(key => {
+        const q = byQNo.get(key);
+        return q ? Number(q.marks) || 0 : '';
+      }),
+      sumMarks(r),
+      Number(r.maxScore) || sumMaxMarks(r),
+      (r.questions || []).filter(q => q.isFlagged).map(q => q.qNo).join('; '),
+      r.approvedBy?.name || '',
+    ];
+  });
+
+  return [header, ...body];
+};
+
+const exportName = (reports: EvaluationReport[]) =>
+  reports.length === 1
+    ? `${reports[0].studentName || 'Student'}_Marks`
+    : `${(reports[0]?.testTitle || 'Class').replace(/[^A-Za-z0-9]+/g, '_')}_Marks`;
+
+export const exportMarksCsv = (reports: EvaluationReport[]) => {
+  downloadCsv(`${exportName(reports)}.csv`, marksRows(reports));
+};
+
+export const exportMarksXlsx = async (reports: EvaluationReport[]): Promise<void> => {
+  const blob = await buildXlsx('Marks', marksRows(reports));
+  downloadBlob(`${exportName(reports)}.xlsx`, blob);
+};
+
+export interface StudentMarks {
+  studentId?: string;
+  studentName?: string;
+  // Keyed by normalised qNo.
+  marks: Record<string, { qNo: string; marks: number }>;
+}
+
+export interface FacultyMarksSheet {
+  fileName: string;
+  students: StudentMarks[];
+}
+
+const ID_HEADERS = ['student id', 'studentid', 'id', 'roll no', 'roll number', 'registration no'];
+const NAME_HEADERS = ['student name', 'student', 'name'];
+const QNO_HEADERS = ['qno', 'q no', 'question', 'question no', 'question number'];
+const MARKS_HEADERS = ['marks', 'mark', 'faculty marks', 'score'];
+// Columns written by `marksRows` that are not per-question marks.
+const IGNORED_HEADERS = ['test', 'test date', 'total', 'max', 'flagged questions', 'approved by'];
+
+const headerIndex = (headers: string[], names: string[]) => headers.findIndex(h => names.includes(h));
+
+const parseMark = (raw: string, where: string): number | null => {
+  const text = raw.trim();
+  if (!text || text === '-') return null;
+  const value = Number(text);
+  if (!Number.isFinite(value) || value < 0) throw new Error(`${where}: "${raw}" is not a valid mark.`);
+  return value;
+};
+
+// "Q3a (/5)" and "3a" are the same column.
+const questionFromHeader = (header: string) => header.replace(/\(.*?\)/g, '').trim();
+
+/**
+ * Reads faculty marks from either a long sheet (student, qNo, marks per row) or a
+ * wide sheet (one row per student, one column per question — the layout
+ * `marksRows` exports, so an exported sheet can be filled in and re-imported).
+ */
+export const parseFacultyMarksCsv = (text: string, fileName: string): FacultyMarksSheet => {
+  // Undo the apostrophe `toCsv` adds in front of formula-like text.
+  const rows = parseCsv(text).map(row => row.map(cell => cell.replace(/^'(?=[=+\-@\t\r])/, '')));
+  if (rows.length < 2) throw new Error("The marks sheet has no data rows.");
+  const rawHeaders = rows[0].map(h => h.trim());
+  const headers = rawHeaders.map(h => h.toLowerCase());
+  const idCol = headerIndex(headers, ID_HEADERS);
+  const nameCol = headerIndex(headers, NAME_HEADERS);
+  if (idCol < 0 && nameCol < 0) throw new Error("The marks sheet needs a Student ID or Student Name column.");
+
+  const byStudent = new Map<string, StudentMarks>();
+  const studentFor = (row: string[]) => {
+    const studentId = idCol >= 0 ? row[idCol]?.trim() : '';
+    const studentName = nameCol >= 0 ? row[nameCol]?.trim() : '';
+    const key = (studentId || studentName).toLowerCase();
+    if (!key) return null;
+    if (!byStudent.has(key)) byStudent.set(key, { studentId: studentId || undefined, studentName: studentName || undefined, marks: {} });
+    return byStudent.get(key)!;
+  };
+
+  const qNoCol = headerIndex(headers, QNO_HEADERS);
+  const marksCol = headerIndex(headers, MARKS_HEADERS);
+  if (qNoCol >= 0 && marksCol >= 0) {
+    rows.slice(1).forEach((row, i) => {
+      const student = studentFor(row);
+      const qNo = row[qNoCol]?.trim();
+      if (!student || !qNo) return;
+      const mark = parseMark(row[marksCol] || '', `Row ${i + 2}`);
+      if (mark !== null) student.marks[normalizeQNo(qNo)] = { qNo, marks: mark };
+    });
+  } else {
+    const questionCols = rawHeaders
+      .map((header, col) => ({ col, qNo: questionFromHeader(header) }))
+      .filter(({ col, qNo }) => col !== idCol && col !== nameCol && qNo && !IGNORED_HEADERS.includes(headers[col]));
+    if (questionCols.length === 0) throw new Error("The marks sheet has no question columns.");
+    rows.slice(1).forEach((row, i) => {
+      const student = studentFor(row);
+      if (!student) return;
+      questionCols.forEach(({ col, qNo }) => {
+        const mark = parseMark(row[col] || '', `Row ${i + 2}, ${rawHeaders[col]}`);
+        if (mark !== null) student.marks[normalizeQNo(qNo)] = { qNo: qNo.replace(/^q(?=\d)/i, ''), marks: mark };
+      });
+    });
+  }
+
+  const students = Array.from(byStudent.values()).filter(s => Object.keys(s.marks).length > 0);
+  if (students.length === 0) throw new Error("No faculty marks were found in the sheet.");
+  return { fileName, students };
+};
+
+export const studentLabel = (s: StudentMarks) =>
+  [s.studentName, s.studentId].filter(Boolean).join(' • ');
+
+// Batch scripts are paired with sheet rows the same way note files are paired by name.
+export const findMarksForFile = (sheet: FacultyMarksSheet, fileName: string): StudentMarks | null => {
+  const key = pairingKey(fileName);
+  return sheet.students.find(s =>
+    (s.studentId && pairingKey(s.studentId) === key) || (s.studentName && pairingKey(s.studentName) === key)
+  ) || null;
+};
+
+// Stands in for the handwritten notes document, so the prompt is unchanged.
+export const marksToFacultyNotes = (sheet: FacultyMarksSheet, student: StudentMarks): FileData => ({
+  name: `${sheet.fileName} (${studentLabel(student)})`,
+  text: [
+    `Faculty marks imported from a marks sheet for ${studentLabel(student)}.`,
+    ...Object.values(student.marks).map(m => `Question ${m.qNo}: ${m.marks} marks`),
+  ].join('\n'),
+  isDocx: false,
+});
+
+// The sheet is authoritative for faculty marks, whatever the model copied.
+export const applyFacultyMarks = (report: EvaluationReport, student: StudentMarks): EvaluationReport => ({
+  ...report,
+  questions: report.questions.map(q => {
+    const entry = student.marks[normalizeQNo(q.qNo)];
+    return entry ? { ...q, facultyMarks: entry.marks } : q;
+  }),
+});
@@ -0,0 +1,121 @@
+import { PageImage } from "../types";
+
+// Long edge of each page image; enough for handwriting while keeping a 20-page
+// script well under the function payload limit.
+const TARGET_MAX_DIMENSION = 1400;
+const JPEG_QUALITY = 0.6;
+// Pages whose thumbnail has less ink than this fraction of pixels are treated as blank.
+const BLANK_THUMB_WIDTH = 120;
+const BLANK_INK_LUMINANCE = 160;
+const BLANK_INK_RATIO = 0.002;
+
+const createPageId = () => `page-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isBlankCanvas = (canvas: HTMLCanvasElement): boolean => {
+  const width = BLANK_THUMB_WIDTH;
+  const height = Math.max(1, Math.round((canvas.height / canvas.width) * width));
+  const thumb = document.createElement('canvas');
+  thumb.width = width;
+  thumb.height = height;
+  const ctx = thumb.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return false;
+  ctx.drawImage(canvas, 0, 0, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  let ink = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    if (luminance < BLANK_INK_LUMINANCE) ink++;
+  }
+  return ink / (width * height) < BLANK_INK_RATIO;
+};
+
+export const canvasToPage = (canvas: HTMLCanvasElement, sourcePage: number): PageImage => ({
+  id: createPageId(),
+  base64: canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1],
+  mimeType: 'image/jpeg',
+  width: canvas.width,
+  height: canvas.height,
+  sourcePage,
+});
+
+export const scaleFor = (width: number, height: number) => Math.min(1, TARGET_MAX_DIMENSION / Math.max(width, height));
+
+export interface RasterisedPages {
+  pages: PageImage[];
+  droppedBlankPages: number;
+}
+
+/**
+ * Renders every page of a scanned PDF to a downscaled JPEG, skipping blank pages
+ * (e.g. the unused back sides of answer booklets).
+ */
+export const rasterisePdf = async (pdf: any, onStep: (step: string) => void = () => {}): Promise<RasterisedPages> => {
+  const pages: PageImage[] = [];
+  let droppedBlankPages = 0;
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    onStep(`Rendering page ${i} of ${pdf.numPages}...`);
+    const page = await pdf.getPage(i);
+    const base = page.getViewport({ scale: 1 });
+    // PDF points are 1/72"; render at up to 2x before clamping to the target size.
+    const viewport = page.getViewport({ scale: Math.min(2, TARGET_MAX_DIMENSION / Math.max(base.width, base.height)) });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported in this browser.");
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: ctx, viewport }).promise;
+    page.cleanup();
+
+    if (isBlankCanvas(canvas)) {
+      droppedBlankPages++;
+      continue;
+    }
+    pages.push(canvasToPage(canvas, i));
+  }
+
+  return { pages, droppedBlankPages };
+};
+
+// JPEGs already at the target size (e.g. camera captures) are sent as-is rather than re-encoded.
+const PASSTHROUGH_MAX_BYTES = 600 * 1024;
+
+const readBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(new Error("Failed to read file."));
+  reader.readAsDataURL(file);
+});
+
+// Phone photos are often 12+ MP; they are downscaled and re-encoded as JPEG.
+export const compressImageFile = async (file: File): Promise<PageImage> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = scaleFor(bitmap.width, bitmap.height);
+  if (scale === 1 && file.type === 'image/jpeg' && file.size <= PASSTHROUGH_MAX_BYTES) {
+    const page = { id: createPageId(), base64: await readBase64(file), mimeType: file.type, width: bitmap.width, height: bitmap.height, sourcePage: 1 };
+    bitmap.close();
+    return page;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvasToPage(canvas, 1);
+};
+
+export const pagesByteSize = (pages: PageImage[]) =>
+  pages.reduce((sum, p) => sum + Math.floor((p.base64.length * 3) / 4), 0);
+
+export const pageToFile = (page: PageImage, name: string): File => {
+  const bytes = Uint8Array.from(atob(page.base64), ch => ch.charCodeAt(0));
+  return new File([bytes], name, { type: page.mimeType });
+};
@@ -0,0 +1,87 @@
+import { AuditProgress, EvaluationReport, GeneralFeedbackSection, QuestionFeedback } from "../types";
+import { GENERAL_FEEDBACK_KEYS, validateReport } from "./reportValidator";
+
+const readStringField = (text: string, field: string): string | undefined => {
+  const match = text.match(new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`));
+  if (!match) return undefined;
+  try {
+    return JSON.parse(`"${match[1]}"`);
+  } catch {
+    return undefined;
+  }
+};
+
+const readNumberField = (text: string, field: string): number | null => {
+  const match = text.match(new RegExp(`"${field}"\\s*:\\s*(\\d+)`));
+  return match ? Number(match[1]) : null;
+};
+
+// Walks the "questions" array and returns the source of every object that has
+// been closed so far, ignoring braces inside strings.
+const completedQuestionSources = (text: string): string[] => {
+  const start = text.search(/"questions"\s*:\s*\[/);
+  if (start === -1) return [];
+
+  const sources: string[] = [];
+  let i = text.indexOf('[', start) + 1;
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') {
+      if (depth === 0) objectStart = i;
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0 && objectStart !== -1) sources.push(text.slice(objectStart, i + 1));
+    } else if (ch === ']' && depth === 0) {
+      break;
+    }
+  }
+  return sources;
+};
+
+/**
+ * Pulls whatever is already usable out of a report that is still being generated:
+ * the student name, the announced question count and each fully-received question.
+ */
+export const parsePartialReport = (text: string): AuditProgress => {
+  const questions: QuestionFeedback[] = [];
+  completedQuestionSources(text).forEach(source => {
+    try {
+      // Validate through the report validator so partial rows are shaped like final ones.
+      questions.push(validateReport({ questions: [JSON.parse(source)] }).report.questions[0]);
+    } catch {
+      // A malformed fragment is skipped; the final response is validated in full.
+    }
+  });
+
+  return {
+    studentName: readStringField(text, 'studentName'),
+    questions,
+    expectedCount: readNumberField(text, 'questionCount'),
+  };
+};
+
+// A report-shaped view of the progress so far, for rendering while the audit runs.
+export const progressPreviewReport = (progress: AuditProgress): EvaluationReport => ({
+  studentName: progress.studentName || '',
+  testTitle: '',
+  testTopics: '',
+  testDate: '',
+  totalScore: 0,
+  maxScore: progress.questions.reduce((sum, q) => sum + (Number(q.maxMarks) || 0), 0),
+  questions: progress.questions,
+  generalFeedback: GENERAL_FEEDBACK_KEYS.reduce((acc, key) => {
+    acc[key] = [];
+    return acc;
+  }, {} as GeneralFeedbackSection),
+});
@@ -0,0 +1,192 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { CellHookData } from 'jspdf-autotable/es';
+import { EvaluationReport } from "../types";
+import { FLAG_LEGEND, GENERAL_FEEDBACK_SECTIONS, QuestionStatus, REPORT_LOGO_URL, getQuestionStatus, parseBoldSegments, reportAttribution } from "./reportFormat";
+import { sumMarks } from "./scoringIntegrity";
+
+// A4 in millimetres; the header/footer bands are kept clear on every page.
+const PAGE_MARGIN = { top: 30, right: 15, bottom: 22, left: 15 };
+const FONT = 'times';
+
+type RGB = [number, number, number];
+const RED: RGB = [220, 38, 38];
+const BLUE: RGB = [30, 64, 175];
+const SLATE: RGB = [30, 41, 59];
+const MUTED: RGB = [148, 163, 184];
+
+const statusFill: Record<QuestionStatus, RGB | undefined> = {
+  unattempted: [254, 242, 242],
+  correct: [236, 253, 245],
+  partial: undefined,
+};
+
+const statusMarkColor: Record<QuestionStatus, RGB> = {
+  unattempted: RED,
+  correct: [4, 120, 87],
+  partial: SLATE,
+};
+
+// Standard PDF fonts have no bold-within-a-cell support, so markdown markers are dropped.
+const plainText = (text: string) => parseBoldSegments(text).map(seg => seg.text).join('');
+
+const bullets = (items?: string[]) =>
+  items && items.length > 0 ? items.map(item => `•  ${plainText(item)}`).join('\n') : 'No specific feedback provided.';
+
+const loadLogo = async (): Promise<string | null> => {
+  try {
+    const response = await fetch(REPORT_LOGO_URL);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error("Failed to read logo."));
+      reader.readAsDataURL(blob);
+    });
+  } catch (e) {
+    console.warn("Logo unavailable for PDF export, using text header:", e);
+    return null;
+  }
+};
+
+const drawPageChrome = (doc: jsPDF, logo: string | null, title: string, attribution: string) => {
+  const pageCount = doc.getNumberOfPages();
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+
+    if (logo) {
+      doc.addImage(logo, 'JPEG', PAGE_MARGIN.left, 8, 48, 15);
+    } else {
+      doc.setFont(FONT, 'bold').setFontSize(16).setTextColor(...RED);
+      doc.text('ANATOMY GURU', PAGE_MARGIN.left, 18);
+    }
+    doc.setFont(FONT, 'bold').setFontSize(8).setTextColor(...MUTED);
+    doc.text(title.toUpperCase(), width - PAGE_MARGIN.right, 18, { align: 'right' });
+    doc.setDrawColor(...RED).setLineWidth(0.4);
+    doc.line(PAGE_MARGIN.left, 25, width - PAGE_MARGIN.right, 25);
+
+    doc.setDrawColor(15, 23, 42).setLineWidth(0.6);
+    doc.line(PAGE_MARGIN.left, height - 15, width - PAGE_MARGIN.right, height - 15);
+    doc.setFont(FONT, 'bold').setFontSize(7).setTextColor(...MUTED);
+    doc.text(`DIGITAL TRANSCRIPT  |  ${attribution}`, PAGE_MARGIN.left, height - 10);
+    doc.setTextColor(...SLATE);
+    doc.text(`PAGE ${page} OF ${pageCount}`, width - PAGE_MARGIN.right, height - 10, { align: 'right' });
+  }
+};
+
+export const buildReportPdf = async (report: EvaluationReport): Promise<jsPDF> => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+  const width = doc.internal.pageSize.getWidth();
+  const centre = width / 2;
+  let y = PAGE_MARGIN.top + 6;
+
+  doc.setFont(FONT, 'bold').setFontSize(13).setTextColor(...RED);
+  doc.text((report.testTitle || 'General Medicine Test').toUpperCase(), centre, y, { align: 'center' });
+  y += 7;
+  doc.setFontSize(11).setTextColor(...SLATE);
+  doc.text(`Topics: ${report.testTopics || 'N/A'}`, centre, y, { align: 'center', maxWidth: width - PAGE_MARGIN.left - PAGE_MARGIN.right });
+  y += 6;
+  doc.setTextColor(...BLUE);
+  doc.text(`DATE: ${report.testDate || 'N/A'}`, centre, y, { align: 'center' });
+  y += 10;
+
+  doc.setTextColor(...RED);
+  doc.text('STUDENT NAME:', PAGE_MARGIN.left, y);
+  doc.setTextColor(15, 23, 42);
+  doc.text(report.studentName || 'Unknown Student', PAGE_MARGIN.left + 32, y);
+  y += 4;
+
+  const flagged = report.questions?.some(q => q.isFlagged);
+  if (flagged) {
+    y += 2;
+    doc.setFillColor(255, 251, 235).setDrawColor(253, 230, 138);
+    doc.rect(PAGE_MARGIN.left, y, width - PAGE_MARGIN.left - PAGE_MARGIN.right, 8, 'FD');
+    doc.setFillColor(...RED);
+    doc.triangle(PAGE_MARGIN.left + 2, y + 2, PAGE_MARGIN.left + 2, y + 6, PAGE_MARGIN.left + 5, y + 4, 'F');
+    doc.setFont(FONT, 'italic').setFontSize(8).setTextColor(146, 64, 14);
+    doc.text(FLAG_LEGEND, PAGE_MARGIN.left + 7, y + 5);
+    y += 8;
+  }
+
+  const questions = report.questions || [];
+  autoTable(doc, {
+    startY: y + 4,
+    margin: PAGE_MARGIN,
+    theme: 'grid',
+    showHead: 'everyPage',
+    showFoot: 'lastPage',
+    rowPageBreak: 'avoid',
+    styles: { font: FONT, fontSize: 10, textColor: SLATE, lineColor: [148, 163, 184], lineWidth: 0.2, cellPadding: 2, valign: 'top' },
+    headStyles: { fillColor: [255, 255, 255], textColor: RED, fontStyle: 'bold', halign: 'center', fontSize: 11 },
+    footStyles: { fillColor: [248, 250, 252], textColor: [100, 116, 139], fontStyle: 'bold' },
+    columnStyles: {
+      0: { cellWidth: 18, halign: 'center', fontStyle: 'bold' },
+      2: { cellWidth: 24, halign: 'center', fontStyle: 'bold' },
+    },
+    head: [['Q NO', 'FEEDBACK', 'MARKS']],
+    body: questions.map(q => [
+      q.isEdited ? `${q.qNo}\nEDITED BY FACULTY` : q.qNo,
+      bullets(q.feedbackPoints),
+      `${q.marks}`,
+    ]),
+    foot: [[
+      { content: 'TOTAL SCORE SUMMATION', colSpan: 2, styles: { halign: 'right' } },
+      { content: `${sumMarks(report)} / ${report.maxScore || 100}`, styles: { halign: 'center', textColor: RED, fontSize: 11 } },
+    ]],
+    didParseCell: (data: CellHookData) => {
+      if (data.section !== 'body') return;
+      const q = questions[data.row.index];
+      const status = getQuestionStatus(q);
+      const fill = statusFill[status];
+      if (fill) data.cell.styles.fillColor = fill;
+      if (data.column.index === 1 && status === 'unattempted') {
+        data.cell.styles.textColor = [185, 28, 28];
+        data.cell.styles.fontStyle = 'bolditalic';
+      }
+      if (data.column.index === 2) data.cell.styles.textColor = statusMarkColor[status];
+    },
+    didDrawCell: (data: CellHookData) => {
+      if (data.section !== 'body' || data.column.index !== 0) return;
+      if (questions[data.row.index]?.isFlagged) {
+        const x = data.cell.x + data.cell.width - 4;
+        const top = data.cell.y + 1.5;
+        doc.setFillColor(...RED);
+        doc.triangle(x, top, x, top + 3, x + 2.5, top + 1.5, 'F');
+      }
+    },
+  });
+
+  if (report.generalFeedback) {
+    const rows: { content: string; styles: Record<string, unknown> }[][] = [];
+    GENERAL_FEEDBACK_SECTIONS.forEach(({ key, label }) => {
+      const edited = report.editedSections?.includes(key) ? '  (EDITED BY FACULTY)' : '';
+      rows.push([{ content: `${label}${edited}`, styles: { fontStyle: 'bold', cellPadding: { top: 3, bottom: 1, left: 4, right: 4 } } }]);
+      rows.push([{ content: bullets(report.generalFeedback[key]), styles: { cellPadding: { top: 0, bottom: 1, left: 10, right: 4 } } }]);
+    });
+
+    autoTable(doc, {
+      startY: (doc as any).lastAutoTable.finalY + 8,
+      margin: PAGE_MARGIN,
+      theme: 'plain',
+      showHead: 'everyPage',
+      rowPageBreak: 'avoid',
+      tableLineColor: [15, 23, 42],
+      tableLineWidth: 0.4,
+      styles: { font: FONT, fontSize: 10, textColor: SLATE },
+      headStyles: { textColor: RED, fontStyle: 'bold', fontSize: 11 },
+      head: [['General Feedback:']],
+      body: rows,
+    });
+  }
+
+  drawPageChrome(doc, await loadLogo(), report.testTitle || 'Clinical Audit', reportAttribution(report).join('  |  ').toUpperCase());
+  return doc;
+};
+
+export const exportReportToPdf = async (report: EvaluationReport): Promise<void> => {
+  const doc = await buildReportPdf(report);
+  doc.save(`${report.studentName || 'Student'}_Clinical_Audit.pdf`);
+};
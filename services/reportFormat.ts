@@ -0,0 +1,63 @@
+import { EvaluationReport, GeneralFeedbackSection, QuestionFeedback, QuestionStatus, ReportStamp } from "../types";
+
+export type { QuestionStatus } from "../types";
+
+// Shared by the on-screen report and every export so they never drift apart.
+
+// Using a placeholder logo path to avoid ESM import errors for non-JS files
+export const REPORT_LOGO_URL = 'https://www.anatomyguru.in/assets/img/logo.jpg';
+
+export const GENERAL_FEEDBACK_SECTIONS: { key: keyof GeneralFeedbackSection; label: string }[] = [
+  { key: 'overallPerformance', label: '1) Overall Performance' },
+  { key: 'mcqs', label: '2) MCQs' },
+  { key: 'contentAccuracy', label: '3) Content Accuracy' },
+  { key: 'completenessOfAnswers', label: '4) Completeness of Answers' },
+  { key: 'presentationDiagrams', label: '5) Presentation & Diagrams (Major drawback)' },
+  { key: 'investigations', label: '6) Investigations (Must improve)' },
+  { key: 'attemptingQuestions', label: '7) Attempting All Questions' },
+  { key: 'actionPoints', label: '8) What to do next (Action points)' },
+];
+
+export const FLAG_LEGEND = 'Indicates questions where a contradiction between manual notes and the official answer key was resolved using the Key.';
+
+const describeStamp = (stamp: ReportStamp) =>
+  `${stamp.name} (${stamp.role}, ${new Date(stamp.at).toLocaleDateString()})`;
+
+// Footer attribution; reports saved before sign-in existed have no stamps.
+export const reportAttribution = (report: EvaluationReport): string[] => [
+  `Generated by ${report.generatedBy ? describeStamp(report.generatedBy) : 'unrecorded user'}`,
+  report.approvedBy ? `Approved by ${describeStamp(report.approvedBy)}` : 'Awaiting approval',
+];
+
+export const getQuestionStatus = (q: QuestionFeedback): QuestionStatus => {
+  // The model's own status is trusted until faculty edit the question; after that
+  // the marks and wording may no longer match it, so fall back to the heuristic.
+  if (q.status && !q.isEdited) return q.status;
+
+  const marks = Number(q.marks) || 0;
+  const feedbackText = q.feedbackPoints?.join(' ').toLowerCase() || '';
+
+  if (marks === 0 || feedbackText.includes('not attempted') || feedbackText.includes('skipped')) {
+    return 'unattempted';
+  }
+
+  if (feedbackText.includes('excellent') || feedbackText.includes('perfect') || feedbackText.includes('precise') || feedbackText.includes('correct')) {
+    return 'correct';
+  }
+
+  return 'partial';
+};
+
+export interface TextSegment {
+  text: string;
+  bold: boolean;
+}
+
+// Splits the model's "**bold**" markdown into runs for renderers without HTML.
+export const parseBoldSegments = (text: string): TextSegment[] =>
+  text
+    .split(/(\*\*.*?\*\*)/g)
+    .filter(Boolean)
+    .map(part => (part.startsWith('**') && part.endsWith('**') && part.length > 4
+      ? { text: part.slice(2, -2), bold: true }
+      : { text: part, bold: false }));
@@ -0,0 +1,135 @@
+import { AuditRecord, AuditSourceFiles, EvaluationMode, EvaluationReport, ReportExport, ReportExportMetadata, ReportStamp, StaffRole } from "../types";
+import { downloadBlob } from "./csv";
+import { formatIssues, GENERAL_FEEDBACK_KEYS, validateReport } from "./reportValidator";
+
+const FORMAT = 'anatomyguru-report';
+
+// Bump when the envelope or report shape changes, and add the step that upgrades
+// the previous version to MIGRATIONS below.
+export const REPORT_EXPORT_VERSION = 1;
+
+const EVALUATION_MODES: EvaluationMode[] = ['with-manual', 'without-manual'];
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// MIGRATIONS[n] upgrades a version-n document to version n + 1.
+const MIGRATIONS: Record<number, (doc: Record<string, any>) => Record<string, any>> = {
+  // Version 0 is a bare EvaluationReport saved without the envelope.
+  0: (report) => ({
+    format: FORMAT,
+    version: 1,
+    exportedAt: '',
+    metadata: { generatedAt: report.generatedBy?.at, promptVersion: report.promptVersion, model: report.model },
+    report,
+  }),
+};
+
+export const buildReportExport = (report: EvaluationReport, record?: AuditRecord | null): ReportExport => ({
+  format: FORMAT,
+  version: REPORT_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  metadata: {
+    mode: record?.mode,
+    sourceFiles: record?.sourceFiles,
+    generatedAt: report.generatedBy?.at ?? record?.createdAt,
+    model: report.model,
+    promptVersion: report.promptVersion,
+  },
+  report,
+});
+
+export const exportReportToJson = (report: EvaluationReport, record?: AuditRecord | null) => {
+  const json = JSON.stringify(buildReportExport(report, record), null, 2);
+  downloadBlob(`${report.studentName || 'Student'}_Report.json`, new Blob([json], { type: 'application/json' }));
+};
+
+const STAFF_ROLES: StaffRole[] = ['faculty', 'reviewer', 'admin'];
+
+const optionalText = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+const readStamp = (raw: unknown): ReportStamp | undefined => {
+  if (!isPlainObject(raw) || !STAFF_ROLES.includes(raw.role)) return undefined;
+  const { username, name, at } = raw;
+  if (typeof username !== 'string' || typeof name !== 'string' || typeof at !== 'string') return undefined;
+  return { username, name, role: raw.role, at };
+};
+
+/**
+ * Copies the fields `validateReport` doesn't cover, checking each one. Approval and
+ * acknowledged integrity issues are dropped: a file can't vouch for itself, so the
+ * report has to be re-approved (and its issues resolved) by a signed-in user.
+ */
+const readReportExtras = (raw: Record<string, any>, metadata: ReportExportMetadata): Partial<EvaluationReport> => {
+  const extras: Partial<EvaluationReport> = {
+    generatedBy: readStamp(raw.generatedBy),
+    promptVersion: optionalText(raw.promptVersion) ?? metadata.promptVersion,
+    model: optionalText(raw.model) ?? metadata.model,
+    studentId: optionalText(raw.studentId),
+  };
+  if (Array.isArray(raw.editedSections)) {
+    extras.editedSections = GENERAL_FEEDBACK_KEYS.filter(key => raw.editedSections.includes(key));
+  }
+  return extras;
+};
+
+const readMetadata = (raw: unknown): ReportExportMetadata => {
+  const source = isPlainObject(raw) ? raw : {};
+  const metadata: ReportExportMetadata = {
+    generatedAt: optionalText(source.generatedAt),
+    model: optionalText(source.model),
+    promptVersion: optionalText(source.promptVersion),
+  };
+  if (EVALUATION_MODES.includes(source.mode)) metadata.mode = source.mode;
+  const files = isPlainObject(source.sourceFiles) ? source.sourceFiles : {};
+  const studentScript = optionalText(files.studentScript);
+  if (studentScript) {
+    const sourceFiles: AuditSourceFiles = { studentScript };
+    (['questionPaper', 'answerKey', 'facultyNotes'] as const).forEach(slot => {
+      const name = optionalText(files[slot]);
+      if (name) sourceFiles[slot] = name;
+    });
+    metadata.sourceFiles = sourceFiles;
+  }
+  return metadata;
+};
+
+/**
+ * Reads an exported report, upgrading older versions step by step. The report
+ * itself is re-checked with the report validator's type checks, so a hand-edited
+ * file can't open with missing questions or non-numeric marks.
+ */
+export const parseReportExport = (text: string): ReportExport => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isPlainObject(doc)) throw new Error("The file does not contain a report.");
+
+  let current: Record<string, any> = doc;
+  let version = current.format === FORMAT ? Number(current.version) : 0;
+  if (version === 0 && current.format !== undefined) throw new Error(`Unsupported file format "${current.format}".`);
+  if (!Number.isInteger(version) || version < 0) throw new Error(`Invalid report export version "${current.version}".`);
+  if (version > REPORT_EXPORT_VERSION) {
+    throw new Error(`This report was exported by a newer version of the app (format v${version}). Please update and try again.`);
+  }
+  while (version < REPORT_EXPORT_VERSION) {
+    current = MIGRATIONS[version](current);
+    version++;
+  }
+
+  // Lenient: faculty edits can leave a question without points or above its maximum;
+  // the integrity checker flags those once the report is open.
+  const { report, issues } = validateReport(current.report, { strict: false });
+  if (issues.length > 0) throw new Error(`The report in this file is invalid:\n${formatIssues(issues)}`);
+  const metadata = readMetadata(current.metadata);
+  return {
+    format: FORMAT,
+    version,
+    exportedAt: typeof current.exportedAt === 'string' ? current.exportedAt : '',
+    metadata,
+    report: { ...report, ...readReportExtras(current.report, metadata) },
+  };
+};
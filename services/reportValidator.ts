@@ -0,0 +1,171 @@
+import { EvaluationReport, GeneralFeedbackSection, QuestionFeedback, QuestionStatus } from "../types";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  report: EvaluationReport;
+  issues: ValidationIssue[];
+}
+
+export const GENERAL_FEEDBACK_KEYS: (keyof GeneralFeedbackSection)[] = [
+  'overallPerformance',
+  'mcqs',
+  'contentAccuracy',
+  'completenessOfAnswers',
+  'presentationDiagrams',
+  'investigations',
+  'attemptingQuestions',
+  'actionPoints',
+];
+
+export const QUESTION_STATUSES: QuestionStatus[] = ['correct', 'partial', 'unattempted'];
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Lossless coercions ("4.5" -> 4.5, "true" -> true) are applied silently; anything
+// that has to be guessed is recorded as an issue so the model can be asked to fix it.
+const coerceNumber = (value: unknown, path: string, issues: ValidationIssue[]): number => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  issues.push({ path, message: `expected a number, got ${JSON.stringify(value)}` });
+  return 0;
+};
+
+const coerceString = (value: unknown, path: string, issues: ValidationIssue[]): string => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  issues.push({ path, message: `expected a string, got ${JSON.stringify(value)}` });
+  return '';
+};
+
+const coerceBoolean = (value: unknown, path: string, issues: ValidationIssue[], fallback: boolean): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value === undefined) return fallback;
+  issues.push({ path, message: `expected a boolean, got ${JSON.stringify(value)}` });
+  return fallback;
+};
+
+const coerceStringList = (value: unknown, path: string, issues: ValidationIssue[]): string[] => {
+  if (Array.isArray(value)) {
+    return value
+      .map((item, i) => coerceString(item, `${path}[${i}]`, issues))
+      .filter(item => item.trim() !== '');
+  }
+  if (typeof value === 'string') return value.trim() ? [value] : [];
+  issues.push({ path, message: value === undefined ? 'is missing' : `expected an array of strings, got ${JSON.stringify(value)}` });
+  return [];
+};
+
+const validateQuestion = (raw: unknown, path: string, issues: ValidationIssue[], strict: boolean): QuestionFeedback => {
+  if (!isPlainObject(raw)) {
+    issues.push({ path, message: 'expected a question object' });
+    return { qNo: '', feedbackPoints: [], marks: 0, maxMarks: 0, isCorrect: false };
+  }
+
+  const qNo = coerceString(raw.qNo, `${path}.qNo`, issues).trim();
+  if (!qNo) issues.push({ path: `${path}.qNo`, message: 'is empty' });
+
+  const marks = coerceNumber(raw.marks, `${path}.marks`, issues);
+  const maxMarks = coerceNumber(raw.maxMarks, `${path}.maxMarks`, issues);
+  if (marks < 0) issues.push({ path: `${path}.marks`, message: `is negative (${marks})` });
+  if (strict && maxMarks <= 0) issues.push({ path: `${path}.maxMarks`, message: `must be greater than 0 (got ${maxMarks})` });
+  if (strict && maxMarks > 0 && marks > maxMarks) {
+    issues.push({ path: `${path}.marks`, message: `${marks} exceeds maxMarks ${maxMarks}` });
+  }
+
+  const feedbackPoints = coerceStringList(raw.feedbackPoints, `${path}.feedbackPoints`, issues);
+  if (strict && feedbackPoints.length === 0) {
+    issues.push({ path: `${path}.feedbackPoints`, message: 'must contain at least one point' });
+  }
+
+  const question: QuestionFeedback = {
+    qNo,
+    feedbackPoints,
+    marks,
+    maxMarks,
+    isCorrect: coerceBoolean(raw.isCorrect, `${path}.isCorrect`, issues, false),
+  };
+  if (raw.status !== undefined) {
+    if (QUESTION_STATUSES.includes(raw.status)) {
+      question.status = raw.status;
+    } else {
+      issues.push({ path: `${path}.status`, message: `must be one of ${QUESTION_STATUSES.join(', ')} (got ${JSON.stringify(raw.status)})` });
+    }
+  }
+  if (raw.isFlagged !== undefined) {
+    question.isFlagged = coerceBoolean(raw.isFlagged, `${path}.isFlagged`, issues, false);
+  }
+  if (raw.facultyMarks !== undefined && raw.facultyMarks !== null) {
+    question.facultyMarks = coerceNumber(raw.facultyMarks, `${path}.facultyMarks`, issues);
+  }
+  // Never produced by the model, but kept when a saved report is re-validated on import.
+  if (raw.isEdited !== undefined) {
+    question.isEdited = coerceBoolean(raw.isEdited, `${path}.isEdited`, issues, false);
+  }
+  return question;
+};
+
+/**
+ * Checks an untrusted model response against the `EvaluationReport` shape.
+ * Always returns a fully-typed report (with safe defaults) alongside every
+ * field-level problem found, so callers decide whether the issues are fatal.
+ * `strict: false` checks types only, for saved reports whose faculty edits may
+ * break the content rules (no feedback points, an acknowledged over-max mark).
+ */
+export const validateReport = (raw: unknown, { strict = true }: { strict?: boolean } = {}): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+  const source = isPlainObject(raw) ? raw : {};
+  if (!isPlainObject(raw)) issues.push({ path: '$', message: 'expected a JSON object' });
+
+  let questions: QuestionFeedback[] = [];
+  if (Array.isArray(source.questions)) {
+    questions = source.questions.map((q: unknown, i: number) => validateQuestion(q, `questions[${i}]`, issues, strict));
+    if (questions.length === 0) issues.push({ path: 'questions', message: 'must contain at least one question' });
+  } else {
+    issues.push({ path: 'questions', message: 'is missing or not an array' });
+  }
+
+  const seen = new Map<string, number>();
+  questions.forEach((q, i) => {
+    const key = q.qNo.toLowerCase();
+    if (!key) return;
+    if (seen.has(key)) {
+      issues.push({ path: `questions[${i}].qNo`, message: `duplicate qNo "${q.qNo}" (also at questions[${seen.get(key)}])` });
+    } else {
+      seen.set(key, i);
+    }
+  });
+
+  const rawFeedback = isPlainObject(source.generalFeedback) ? source.generalFeedback : {};
+  if (!isPlainObject(source.generalFeedback)) {
+    issues.push({ path: 'generalFeedback', message: 'is missing or not an object' });
+  }
+  const generalFeedback = GENERAL_FEEDBACK_KEYS.reduce((acc, key) => {
+    acc[key] = coerceStringList(rawFeedback[key], `generalFeedback.${key}`, issues);
+    return acc;
+  }, {} as GeneralFeedbackSection);
+
+  const report: EvaluationReport = {
+    studentName: coerceString(source.studentName ?? '', 'studentName', issues),
+    testTitle: coerceString(source.testTitle ?? '', 'testTitle', issues),
+    testTopics: coerceString(source.testTopics ?? '', 'testTopics', issues),
+    testDate: coerceString(source.testDate ?? '', 'testDate', issues),
+    totalScore: coerceNumber(source.totalScore, 'totalScore', issues),
+    maxScore: coerceNumber(source.maxScore, 'maxScore', issues),
+    questions,
+    generalFeedback,
+  };
+
+  return { report, issues };
+};
+
+export const formatIssues = (issues: ValidationIssue[]): string =>
+  issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n');
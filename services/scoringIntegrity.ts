@@ -0,0 +1,107 @@
+import { EvaluationReport } from "../types";
+
+export type IntegrityIssueKind = 'total-mismatch' | 'max-mismatch' | 'exceeds-max' | 'faculty-mismatch';
+
+export interface IntegrityIssue {
+  // Encodes the values involved, so changing them re-raises an acknowledged issue.
+  id: string;
+  kind: IntegrityIssueKind;
+  qNo?: string;
+  message: string;
+  fixLabel: string;
+}
+
+// Marks are awarded in halves; anything closer than this is rounding noise.
+const TOLERANCE = 0.01;
+
+const differs = (a: number, b: number) => Math.abs(a - b) > TOLERANCE;
+
+export const sumMarks = (report: EvaluationReport): number =>
+  (report.questions || []).reduce((acc, q) => acc + (Number(q.marks) || 0), 0);
+
+export const sumMaxMarks = (report: EvaluationReport): number =>
+  (report.questions || []).reduce((acc, q) => acc + (Number(q.maxMarks) || 0), 0);
+
+// Used after faculty change marks, so the total reflects their corrections.
+export const withRecomputedTotal = (report: EvaluationReport): EvaluationReport => ({
+  ...report,
+  totalScore: sumMarks(report),
+});
+
+export const checkScoringIntegrity = (report: EvaluationReport): IntegrityIssue[] => {
+  const issues: IntegrityIssue[] = [];
+  const summed = sumMarks(report);
+  const summedMax = sumMaxMarks(report);
+
+  if (differs(Number(report.totalScore) || 0, summed)) {
+    issues.push({
+      id: `total-mismatch:${report.totalScore}:${summed}`,
+      kind: 'total-mismatch',
+      message: `AI reported a total of ${report.totalScore}, but the question marks add up to ${summed}.`,
+      fixLabel: `Set total to ${summed}`,
+    });
+  }
+
+  if (summedMax > 0 && differs(Number(report.maxScore) || 0, summedMax)) {
+    issues.push({
+      id: `max-mismatch:${report.maxScore}:${summedMax}`,
+      kind: 'max-mismatch',
+      message: `Maximum score is ${report.maxScore || 'missing'}, but question maxima add up to ${summedMax}.`,
+      fixLabel: `Set maximum to ${summedMax}`,
+    });
+  }
+
+  (report.questions || []).forEach(q => {
+    if (q.maxMarks > 0 && q.marks > q.maxMarks + TOLERANCE) {
+      issues.push({
+        id: `exceeds-max:${q.qNo}:${q.marks}:${q.maxMarks}`,
+        kind: 'exceeds-max',
+        qNo: q.qNo,
+        message: `Q${q.qNo} awards ${q.marks} marks, above its maximum of ${q.maxMarks}.`,
+        fixLabel: `Cap at ${q.maxMarks}`,
+      });
+    }
+    if (typeof q.facultyMarks === 'number' && differs(q.facultyMarks, q.marks)) {
+      issues.push({
+        id: `faculty-mismatch:${q.qNo}:${q.marks}:${q.facultyMarks}`,
+        kind: 'faculty-mismatch',
+        qNo: q.qNo,
+        message: `Q${q.qNo} shows ${q.marks} marks, but the faculty notes award ${q.facultyMarks}.`,
+        fixLabel: `Use faculty mark (${q.facultyMarks})`,
+      });
+    }
+  });
+
+  return issues;
+};
+
+export const unresolvedIssues = (report: EvaluationReport): IntegrityIssue[] => {
+  const acknowledged = report.acknowledgedIssues || [];
+  return checkScoringIntegrity(report).filter(issue => !acknowledged.includes(issue.id));
+};
+
+export const acknowledgeIssue = (report: EvaluationReport, issue: IntegrityIssue): EvaluationReport => ({
+  ...report,
+  acknowledgedIssues: [...(report.acknowledgedIssues || []), issue.id],
+});
+
+export const applyIntegrityFix = (report: EvaluationReport, issue: IntegrityIssue): EvaluationReport => {
+  switch (issue.kind) {
+    case 'total-mismatch':
+      return { ...report, totalScore: sumMarks(report) };
+    case 'max-mismatch':
+      return { ...report, maxScore: sumMaxMarks(report) };
+    case 'exceeds-max':
+      return withRecomputedTotal({
+        ...report,
+        questions: report.questions.map(q => (q.qNo === issue.qNo ? { ...q, marks: q.maxMarks, isEdited: true } : q)),
+      });
+    case 'faculty-mismatch':
+      return withRecomputedTotal({
+        ...report,
+        questions: report.questions.map(q =>
+          q.qNo === issue.qNo && typeof q.facultyMarks === 'number' ? { ...q, marks: q.facultyMarks, isEdited: true } : q
+        ),
+      });
+  }
+};
@@ -0,0 +1,126 @@
+import { AuditRecord, GeneralFeedbackSection } from "../types";
+import { feedbackTerms, testKey } from "./classAnalytics";
+import { parseBoldSegments } from "./reportFormat";
+import { sumMarks, sumMaxMarks } from "./scoringIntegrity";
+
+export interface TimelineEntry {
+  auditId: string;
+  testTitle: string;
+  testDate: string;
+  score: number;
+  maxScore: number;
+  percentage: number;
+}
+
+export interface RecurringWeakness {
+  section: keyof GeneralFeedbackSection;
+  label: string;
+  tests: number;
+}
+
+export type ActionPointStatus = 'addressed' | 'recurring' | 'pending';
+
+export interface ActionPointFollowUp {
+  testTitle: string;
+  point: string;
+  status: ActionPointStatus;
+}
+
+export interface StudentProgress {
+  timeline: TimelineEntry[];
+  recurringWeaknesses: RecurringWeakness[];
+  actionPoints: ActionPointFollowUp[];
+}
+
+// Sections that describe shortcomings; overall performance and action points are not weaknesses.
+export const WEAKNESS_SECTIONS: (keyof GeneralFeedbackSection)[] = [
+  'mcqs',
+  'contentAccuracy',
+  'completenessOfAnswers',
+  'presentationDiagrams',
+  'investigations',
+  'attemptingQuestions',
+];
+
+const MIN_KEYWORD_LENGTH = 6;
+
+// Test dates are free text; unparseable ones fall back to when the audit was saved.
+const sortTime = (record: AuditRecord) => {
+  const parsed = Date.parse(record.report.testDate);
+  return Number.isNaN(parsed) ? Date.parse(record.createdAt) : parsed;
+};
+
+const weaknessText = (record: AuditRecord) =>
+  WEAKNESS_SECTIONS.flatMap(section => record.report.generalFeedback?.[section] || []).join(' ').toLowerCase();
+
+/**
+ * An action point counts as recurring when the next test's weaknesses mention its
+ * bold key terms (or, for plain points, at least half of its longer words).
+ */
+const followUpStatus = (point: string, next: AuditRecord | undefined): ActionPointStatus => {
+  if (!next) return 'pending';
+  const text = weaknessText(next);
+  const bold = parseBoldSegments(point).filter(seg => seg.bold).map(seg => seg.text.trim().toLowerCase());
+  if (bold.length > 0) return bold.some(term => text.includes(term)) ? 'recurring' : 'addressed';
+
+  const words = Array.from(new Set(point.toLowerCase().match(/[a-z]+/g) || [])).filter(w => w.length >= MIN_KEYWORD_LENGTH);
+  if (words.length === 0) return 'addressed';
+  const hits = words.filter(w => text.includes(w)).length;
+  return hits >= Math.max(2, Math.ceil(words.length / 2)) ? 'recurring' : 'addressed';
+};
+
+export const buildStudentProgress = (records: AuditRecord[], studentId: string): StudentProgress => {
+  // Only the newest audit of each test counts, so re-runs don't appear twice.
+  const byTest = new Map<string, AuditRecord>();
+  records
+    .filter(r => r.report.studentId === studentId)
+    .forEach(r => {
+      const key = testKey(r.report);
+      const current = byTest.get(key);
+      if (!current || r.createdAt > current.createdAt) byTest.set(key, r);
+    });
+  const ordered = Array.from(byTest.values()).sort((a, b) => sortTime(a) - sortTime(b));
+
+  const timeline: TimelineEntry[] = ordered.map(r => {
+    const score = sumMarks(r.report);
+    const maxScore = Number(r.report.maxScore) || sumMaxMarks(r.report);
+    return {
+      auditId: r.id,
+      testTitle: r.report.testTitle || 'Untitled test',
+      testDate: r.report.testDate || '',
+      score,
+      maxScore,
+      percentage: maxScore > 0 ? Math.round((score / maxScore) * 1000) / 10 : 0,
+    };
+  });
+
+  const counts = new Map<string, RecurringWeakness>();
+  ordered.forEach(r => {
+    const mentioned = new Set<string>();
+    WEAKNESS_SECTIONS.forEach(section => {
+      (r.report.generalFeedback?.[section] || []).forEach(point => {
+        feedbackTerms(point).forEach(label => {
+          const key = `${section}|${label}`;
+          if (mentioned.has(key)) return;
+          mentioned.add(key);
+          const existing = counts.get(key);
+          if (existing) existing.tests++;
+          else counts.set(key, { section, label, tests: 1 });
+        });
+      });
+    });
+  });
+  const recurringWeaknesses = Array.from(counts.values())
+    .filter(w => w.tests > 1)
+    .sort((a, b) => b.tests - a.tests || a.label.localeCompare(b.label));
+
+  const actionPoints: ActionPointFollowUp[] = ordered.flatMap((r, i) =>
+    (r.report.generalFeedback?.actionPoints || []).map(point => ({
+      testTitle: r.report.testTitle || 'Untitled test',
+      point,
+      status: followUpStatus(point, ordered[i + 1]),
+    }))
+  );
+
+  return { timeline, recurringWeaknesses, actionPoints };
+};
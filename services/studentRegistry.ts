@@ -0,0 +1,54 @@
+import { EvaluationReport, Student } from "../types";
+
+const STORAGE_KEY = 'anatomyguru.students';
+
+export const loadStudents = (): Student[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("Failed to read student registry:", e);
+    return [];
+  }
+};
+
+const persist = (students: Student[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(students));
+};
+
+// The id is the institution's roll/registration number, so it must be unique.
+export const addStudent = (input: Omit<Student, 'createdAt'>): Student[] => {
+  const id = input.id.trim();
+  const name = input.name.trim();
+  if (!id || !name) throw new Error("Student ID and name are required.");
+  const existing = loadStudents();
+  if (existing.some(s => s.id.toLowerCase() === id.toLowerCase())) {
+    throw new Error(`A student with ID "${id}" is already registered.`);
+  }
+  const next = [...existing, { id, name, batch: input.batch.trim(), createdAt: new Date().toISOString() }];
+  persist(next);
+  return next;
+};
+
+export const deleteStudent = (id: string): Student[] => {
+  const next = loadStudents().filter(s => s.id !== id);
+  persist(next);
+  return next;
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const findStudentsByName = (students: Student[], name: string): Student[] => {
+  const needle = normalizeName(name || '');
+  return needle ? students.filter(s => normalizeName(s.name) === needle) : [];
+};
+
+export const linkStudent = (report: EvaluationReport, studentId: string | null): EvaluationReport =>
+  ({ ...report, studentId: studentId || undefined });
+
+// New reports are linked automatically only when the printed name is unambiguous.
+export const autoLinkStudent = (report: EvaluationReport): EvaluationReport => {
+  if (report.studentId) return report;
+  const matches = findStudentsByName(loadStudents(), report.studentName);
+  return matches.length === 1 ? linkStudent(report, matches[0].id) : report;
+};
@@ -0,0 +1,78 @@
+import { EvaluationReport, QuestionFeedback, TestTemplate } from "../types";
+
+const STORAGE_KEY = 'anatomyguru.testTemplates';
+
+export const loadTemplates = (): TestTemplate[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("Failed to read saved templates:", e);
+    return [];
+  }
+};
+
+const persist = (templates: TestTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+export const saveTemplate = (template: TestTemplate): TestTemplate[] => {
+  const stamped = { ...template, updatedAt: new Date().toISOString() };
+  const existing = loadTemplates();
+  const next = existing.some(t => t.id === stamped.id)
+    ? existing.map(t => (t.id === stamped.id ? stamped : t))
+    : [...existing, stamped];
+  persist(next);
+  return next;
+};
+
+export const deleteTemplate = (id: string): TestTemplate[] => {
+  const next = loadTemplates().filter(t => t.id !== id);
+  persist(next);
+  return next;
+};
+
+export const createEmptyTemplate = (): TestTemplate => ({
+  id: `tpl-${Date.now()}`,
+  title: '',
+  topics: '',
+  testDate: '',
+  questions: [{ qNo: '1', maxMarks: 0, keyPoints: [] }],
+  updatedAt: new Date().toISOString(),
+});
+
+export const templateMaxScore = (template: TestTemplate): number =>
+  template.questions.reduce((acc, q) => acc + (Number(q.maxMarks) || 0), 0);
+
+// "Q3(a)", "3 a" and "3.a" all refer to the same sub-part as "3a".
+export const normalizeQNo = (qNo: string): string =>
+  String(qNo).toLowerCase().replace(/^q(uestion)?\.?\s*/, '').replace(/[\s().\-_]/g, '');
+
+/**
+ * Forces a model-generated report onto the template structure: questions are
+ * reordered to the template, missing ones are filled as unattempted, unknown ones
+ * are dropped, and all maxima come from the template rather than the model.
+ * Marks are kept as awarded, so one above the template maximum is flagged by the
+ * scoring integrity check instead of being silently capped.
+ */
+export const applyTemplate = (report: EvaluationReport, template: TestTemplate): EvaluationReport => {
+  const byQNo = new Map<string, QuestionFeedback>();
+  (report.questions || []).forEach(q => byQNo.set(normalizeQNo(q.qNo), q));
+
+  const questions: QuestionFeedback[] = template.questions.map(tq => {
+    const found = byQNo.get(normalizeQNo(tq.qNo));
+    if (!found) {
+      return { qNo: tq.qNo, feedbackPoints: ['Not attempted.'], marks: 0, maxMarks: tq.maxMarks, isCorrect: false, status: 'unattempted' };
+    }
+    return { ...found, qNo: tq.qNo, marks: Number(found.marks) || 0, maxMarks: tq.maxMarks };
+  });
+
+  return {
+    ...report,
+    testTitle: template.title || report.testTitle,
+    testTopics: template.topics || report.testTopics,
+    testDate: template.testDate || report.testDate,
+    maxScore: templateMaxScore(template),
+    questions,
+  };
+};
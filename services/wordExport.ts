@@ -0,0 +1,193 @@
+import { EvaluationReport, QuestionFeedback } from "../types";
+import { FLAG_LEGEND, GENERAL_FEEDBACK_SECTIONS, QuestionStatus, REPORT_LOGO_URL, getQuestionStatus, parseBoldSegments, reportAttribution } from "./reportFormat";
+import { sumMarks } from "./scoringIntegrity";
+import { AlignmentType, BorderStyle, Document, Footer, ImageRun, Packer, Paragraph, ShadingType, Table, TableCell, TableRow, TextRun, VerticalAlign, WidthType } from 'docx';
+
+// docx sizes are in half-points; these mirror the 14px/16px on-screen report.
+const CONTENT_SIZE = 22;
+const HEADING_SIZE = 24;
+const RED = 'DC2626';
+const BLUE = '1E40AF';
+
+const statusShading: Record<QuestionStatus, string | undefined> = {
+  unattempted: 'FEF2F2',
+  correct: 'ECFDF5',
+  partial: undefined,
+};
+
+const statusMarkColor: Record<QuestionStatus, string> = {
+  unattempted: RED,
+  correct: '047857',
+  partial: '1E293B',
+};
+
+const boldRuns = (text: string, extra: Record<string, unknown> = {}) =>
+  parseBoldSegments(text).map(seg => new TextRun({ text: seg.text, bold: seg.bold || undefined, size: CONTENT_SIZE, ...extra }));
+
+const bulletParagraphs = (items: string[] | undefined, extra: Record<string, unknown> = {}) => {
+  if (!items || items.length === 0) {
+    return [new Paragraph({ children: [new TextRun({ text: 'No specific feedback provided.', italics: true, color: '94A3B8', size: CONTENT_SIZE })], indent: { left: 720 } })];
+  }
+  return items.map(item => new Paragraph({ children: boldRuns(item, extra), bullet: { level: 0 } }));
+};
+
+const headerCell = (text: string, widthPct: number) =>
+  new TableCell({
+    width: { size: widthPct, type: WidthType.PERCENTAGE },
+    children: [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: text.toUpperCase(), bold: true, color: RED, size: HEADING_SIZE })] })],
+  });
+
+const questionRow = (q: QuestionFeedback) => {
+  const status = getQuestionStatus(q);
+  const shading = statusShading[status] ? { fill: statusShading[status], type: ShadingType.CLEAR, color: 'auto' } : undefined;
+  const qNoChildren = [new TextRun({ text: q.qNo, bold: true, size: CONTENT_SIZE })];
+  if (q.isFlagged) qNoChildren.push(new TextRun({ text: ' 🚩', size: CONTENT_SIZE }));
+
+  const qNoParagraphs = [new Paragraph({ alignment: AlignmentType.CENTER, children: qNoChildren })];
+  if (q.isEdited) {
+    qNoParagraphs.push(new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: 'EDITED BY FACULTY', bold: true, color: BLUE, size: 14 })] }));
+  }
+
+  const pointStyle = status === 'unattempted' ? { color: 'B91C1C', italics: true } : {};
+  return new TableRow({
+    cantSplit: true,
+    children: [
+      new TableCell({ shading, verticalAlign: VerticalAlign.TOP, children: qNoParagraphs }),
+      new TableCell({ shading, children: bulletParagraphs(q.feedbackPoints, pointStyle) }),
+      new TableCell({
+        shading,
+        children: [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: `${q.marks}`, bold: true, color: statusMarkColor[status], size: CONTENT_SIZE })] })],
+      }),
+    ],
+  });
+};
+
+const fetchLogo = async (): Promise<ArrayBuffer | null> => {
+  try {
+    const response = await fetch(REPORT_LOGO_URL);
+    if (!response.ok) return null;
+    return await response.arrayBuffer();
+  } catch (e) {
+    console.warn("Logo unavailable for Word export, using text header:", e);
+    return null;
+  }
+};
+
+export const buildWordDocument = async (report: EvaluationReport) => {
+  const logo = await fetchLogo();
+  const children: any[] = [];
+
+  children.push(new Paragraph({
+    alignment: AlignmentType.CENTER,
+    children: [logo
+      ? new ImageRun({ data: logo, transformation: { width: 256, height: 80 } })
+      : new TextRun({ text: 'ANATOMY GURU', bold: true, color: RED, size: 40 })],
+  }));
+
+  children.push(
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 120, after: 120 },
+      children: [new TextRun({ text: (report.testTitle || 'General Medicine Test').toUpperCase(), bold: true, color: RED, size: HEADING_SIZE })],
+    }),
+    new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: `Topics: ${report.testTopics || 'N/A'}`, bold: true, size: CONTENT_SIZE })] }),
+    new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: `DATE: ${report.testDate || 'N/A'}`, bold: true, color: BLUE, size: CONTENT_SIZE })] }),
+    new Paragraph({
+      spacing: { before: 240, after: 120 },
+      children: [
+        new TextRun({ text: 'STUDENT NAME: ', bold: true, color: RED, size: CONTENT_SIZE }),
+        new TextRun({ text: report.studentName || 'Unknown Student', bold: true, underline: {}, size: CONTENT_SIZE }),
+      ],
+    })
+  );
+
+  if (report.questions?.some(q => q.isFlagged)) {
+    children.push(new Paragraph({
+      shading: { fill: 'FFFBEB', type: ShadingType.CLEAR, color: 'auto' },
+      spacing: { after: 120 },
+      children: [new TextRun({ text: `🚩 ${FLAG_LEGEND}`, italics: true, color: '92400E', size: 18 })],
+    }));
+  }
+
+  const totalRow = new TableRow({
+    cantSplit: true,
+    children: [
+      new TableCell({
+        columnSpan: 2,
+        shading: { fill: 'F8FAFC', type: ShadingType.CLEAR, color: 'auto' },
+        children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: 'TOTAL SCORE SUMMATION', bold: true, color: '64748B', size: CONTENT_SIZE })] })],
+      }),
+      new TableCell({
+        children: [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: `${sumMarks(report)} / ${report.maxScore || 100}`, bold: true, color: RED, size: HEADING_SIZE })] })],
+      }),
+    ],
+  });
+
+  children.push(new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: [headerCell('Q No', 10), headerCell('Feedback', 75), headerCell('Marks', 15)] }),
+      ...(report.questions || []).map(questionRow),
+      totalRow,
+    ],
+  }));
+
+  if (report.generalFeedback) {
+    const sectionParagraphs: any[] = [
+      new Paragraph({ children: [new TextRun({ text: 'General Feedback:', bold: true, underline: {}, color: RED, size: HEADING_SIZE })] }),
+    ];
+    GENERAL_FEEDBACK_SECTIONS.forEach(({ key, label }) => {
+      const headingRuns = [new TextRun({ text: label, bold: true, size: CONTENT_SIZE })];
+      if (report.editedSections?.includes(key)) {
+        headingRuns.push(new TextRun({ text: '  (EDITED BY FACULTY)', bold: true, color: BLUE, size: 16 }));
+      }
+      sectionParagraphs.push(
+        new Paragraph({ spacing: { before: 160 }, children: headingRuns }),
+        ...bulletParagraphs(report.generalFeedback[key])
+      );
+    });
+
+    // A single bordered cell reproduces the boxed General Feedback panel.
+    const border = { style: BorderStyle.SINGLE, size: 8, color: '0F172A' };
+    children.push(
+      new Paragraph({ children: [] }),
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: [new TableRow({ children: [new TableCell({
+          borders: { top: border, bottom: border, left: border, right: border },
+          margins: { top: 160, bottom: 160, left: 200, right: 200 },
+          children: sectionParagraphs,
+        })] })],
+      })
+    );
+  }
+
+  return new Document({
+    styles: { default: { document: { run: { font: 'Times New Roman', size: CONTENT_SIZE } } } },
+    sections: [{
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            border: { top: { style: BorderStyle.SINGLE, size: 12, color: '0F172A' } },
+            children: [
+              new TextRun({ text: `DIGITAL TRANSCRIPT  |  ${reportAttribution(report).join('  |  ').toUpperCase()}`, bold: true, color: '94A3B8', size: 14 }),
+              new TextRun({ text: '\tVERIFIED © 2025', bold: true, size: 14 }),
+            ],
+          })],
+        }),
+      },
+      children,
+    }],
+  });
+};
+
+export const exportReportToWord = async (report: EvaluationReport): Promise<void> => {
+  const doc = await buildWordDocument(report);
+  const blob = await Packer.toBlob(doc);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${report.studentName || 'Student'}_Clinical_Audit.docx`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,11 +1,16 @@
 
+export type QuestionStatus = 'correct' | 'partial' | 'unattempted';
+
 export interface QuestionFeedback {
   qNo: string;
   feedbackPoints: string[];
   marks: number;
   maxMarks: number;
   isCorrect: boolean;
+  status?: QuestionStatus;
   isFlagged?: boolean;
+  isEdited?: boolean;
+  facultyMarks?: number;
 }
 
 export interface GeneralFeedbackSection {
@@ -28,12 +33,191 @@ export interface EvaluationReport {
   maxScore: number;
   questions: QuestionFeedback[];
   generalFeedback: GeneralFeedbackSection;
+  editedSections?: (keyof GeneralFeedbackSection)[];
+  acknowledgedIssues?: string[];
+  generatedBy?: ReportStamp;
+  approvedBy?: ReportStamp;
+  // Server prompt template version that produced the report.
+  promptVersion?: string;
+  // Provider and model that produced the report, e.g. "gemini:gemini-3-flash-preview".
+  model?: string;
+  // Registry id of the student; `studentName` stays as printed on the script.
+  studentId?: string;
+}
+
+export interface Student {
+  id: string;
+  name: string;
+  batch: string;
+  createdAt: string;
+}
+
+export interface PageImage {
+  id: string;
+  base64: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  // 1-based page in the source file, kept so reordered pages can still be traced.
+  sourcePage: number;
+  sourceName?: string;
 }
 
 export interface FileData {
   base64?: string;
   mimeType?: string;
   text?: string;
+  // Scanned PDFs and photos are sent as one compressed image per page.
+  pages?: PageImage[];
+  droppedBlankPages?: number;
   name: string;
   isDocx: boolean;
 }
+
+export type EvaluationMode = 'with-manual' | 'without-manual';
+
+export interface AuditSourceFiles {
+  questionPaper?: string;
+  answerKey?: string;
+  studentScript: string;
+  facultyNotes?: string;
+}
+
+// Versioned JSON envelope for exchanging a single report; see services/reportInterchange.ts.
+export interface ReportExportMetadata {
+  mode?: EvaluationMode;
+  sourceFiles?: AuditSourceFiles;
+  generatedAt?: string;
+  model?: string;
+  promptVersion?: string;
+}
+
+export interface ReportExport {
+  format: 'anatomyguru-report';
+  version: number;
+  exportedAt: string;
+  metadata: ReportExportMetadata;
+  report: EvaluationReport;
+}
+
+export interface AuditRecord {
+  id: string;
+  report: EvaluationReport;
+  mode: EvaluationMode;
+  sourceFiles: AuditSourceFiles;
+  // Id of the record this one was duplicated from; the report keeps the student's name.
+  duplicateOf?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TemplateQuestion {
+  qNo: string;
+  maxMarks: number;
+  keyPoints: string[];
+}
+
+export interface TestTemplate {
+  id: string;
+  title: string;
+  topics: string;
+  testDate: string;
+  questions: TemplateQuestion[];
+  updatedAt: string;
+}
+
+export interface EvaluationDocuments {
+  questionPaper: FileData | null;
+  answerKey: FileData | null;
+  studentScript: FileData;
+  facultyNotes: FileData | null;
+}
+
+// Wire format sent to the evaluate function; the server turns it into the model prompt.
+export interface DocumentPayload {
+  name: string;
+  text?: string;
+  // Page images (or a single inline file), in reading order.
+  attachments?: { data: string; mimeType: string }[];
+}
+
+export interface EvaluationRequest {
+  mode: EvaluationMode;
+  documents: {
+    questionPaper?: DocumentPayload;
+    answerKey?: DocumentPayload;
+    studentScript: DocumentPayload;
+    facultyNotes?: DocumentPayload;
+  };
+  template?: Omit<TestTemplate, 'id' | 'updatedAt'>;
+  // Admins may pin a non-default version to compare prompts on the same inputs.
+  promptVersion?: string;
+}
+
+export interface PromptVersionInfo {
+  version: string;
+  description: string;
+  isDefault: boolean;
+}
+
+// One side of a prompt A/B run; a failed version keeps its error so the other still shows.
+export interface PromptComparisonResult {
+  version: string;
+  report: EvaluationReport | null;
+  error: string | null;
+}
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  studentFile: File;
+  notesFile: File | null;
+  status: BatchItemStatus;
+  report?: EvaluationReport;
+  auditId?: string;
+  error?: string;
+}
+
+// Error codes returned by the Netlify functions in `{ success: false, code, error }`.
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UPSTREAM_RATE_LIMITED'
+  | 'UPSTREAM_SAFETY_BLOCK'
+  | 'UPSTREAM_ERROR'
+  | 'INVALID_OUTPUT'
+  | 'MISCONFIGURED'
+  | 'UNAUTHENTICATED'
+  | 'FORBIDDEN'
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'RATE_LIMITED'
+  | 'NOT_FOUND'
+  | 'INTERNAL';
+
+export type StaffRole = 'faculty' | 'reviewer' | 'admin';
+
+export interface StaffUser {
+  username: string;
+  name: string;
+  role: StaffRole;
+}
+
+export interface AuthSession {
+  token: string;
+  user: StaffUser;
+  expiresAt: string;
+}
+
+export interface ReportStamp {
+  username: string;
+  name: string;
+  role: StaffRole;
+  at: string;
+}
+
+export interface AuditProgress {
+  studentName?: string;
+  questions: QuestionFeedback[];
+  expectedCount: number | null;
+}